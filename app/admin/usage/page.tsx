@@ -0,0 +1,108 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
+import { getTelemetrySink, summarizeUsage, type UsageTotals } from "@/lib/telemetry";
+
+export const dynamic = 'force-dynamic';
+
+interface UsagePageProps {
+  searchParams: { token?: string };
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+// Open in development; in production it needs ADMIN_TOKEN and a matching `?token=`.
+// Both sides are hashed so the comparison is constant-time whatever the lengths.
+function isAllowed(token: string | undefined): boolean {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) return process.env.NODE_ENV !== 'production';
+  return !!token && timingSafeEqual(hashToken(token), hashToken(expected));
+}
+
+const formatCost = (totals: UsageTotals) =>
+  `$${totals.costUsd.toFixed(4)}${totals.unpriced ? ` (+${totals.unpriced} unpriced)` : ''}`;
+
+const COLUMNS: [string, (totals: UsageTotals) => React.ReactNode][] = [
+  ['Calls', totals => totals.calls],
+  ['Errors', totals => totals.errors],
+  ['Cache hits', totals => totals.cacheHits],
+  ['Prompt tokens', totals => totals.promptTokens.toLocaleString()],
+  ['Completion tokens', totals => totals.completionTokens.toLocaleString()],
+  ['Cost', formatCost],
+  ['Avg latency', totals => `${totals.averageLatencyMs} ms`],
+];
+
+const UsageTable = ({ label, rows }: { label: string; rows: { key: string; totals: UsageTotals }[] }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="border-b text-left text-muted-foreground">
+        <th className="py-2 pr-4 font-medium">{label}</th>
+        {COLUMNS.map(([title]) => (
+          <th key={title} className="py-2 pr-4 font-medium text-right">{title}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(({ key, totals }) => (
+        <tr key={key} className="border-b last:border-0">
+          <td className="py-2 pr-4 font-mono text-xs">{key}</td>
+          {COLUMNS.map(([title, value]) => (
+            <td key={title} className="py-2 pr-4 text-right tabular-nums">{value(totals)}</td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export default async function UsagePage({ searchParams }: UsagePageProps) {
+  if (!isAllowed(searchParams.token)) notFound();
+
+  const summary = summarizeUsage(await getTelemetrySink().read());
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <h1 className="text-2xl font-semibold">Model usage</h1>
+        <Card>
+          <CardHeader>
+            <CardTitle>Total</CardTitle>
+            <CardDescription>
+              Token counts marked as estimated in the log are approximations from text length.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <UsageTable label="" rows={[{ key: 'All calls', totals: summary.total }]} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Per day (UTC)</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {summary.byDay.length ? (
+              <UsageTable label="Day" rows={summary.byDay.map(({ day, totals }) => ({ key: day, totals }))} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No model calls recorded yet.</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Per session</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {summary.bySession.length ? (
+              <UsageTable
+                label="Session"
+                rows={summary.bySession.map(({ sessionId, totals }) => ({ key: sessionId, totals }))}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">No model calls recorded yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { isAbortError } from '@/lib/abort';
+import { ingestDocument } from '@/lib/api/ingest';
+import { instrument } from '@/lib/api/instrument';
+import { readModelRequest } from '@/lib/api/modelRequest';
+import { errorResponse, upstreamError } from '@/lib/api/responses';
+import { parseIngestRequest } from '@/lib/api/schema';
+
+export async function POST(request: Request) {
+  const prepared = await readModelRequest(request, parseIngestRequest);
+  if (prepared instanceof Response) return prepared;
+  const { llm, data, recordUsage } = prepared;
+
+  const { document, spec, noCache } = data;
+  const ingester = instrument(llm, {
+    route: 'ingest',
+    task: 'ingest-document',
+    sessionId: request.headers.get('x-session-id'),
+    useCache: !noCache,
+  });
+
+  try {
+    const result = await ingestDocument(ingester.llm, document, spec, request.signal);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (isAbortError(error)) {
+      return new Response(null, { status: 499 });
+    }
+    console.error(`LLM provider (${llm.provider.name}) ingest error:`, error);
+    return errorResponse(upstreamError(error));
+  } finally {
+    recordUsage(ingester.tokens());
+  }
+}
@@ -1,28 +1,178 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY,
-});
+import { isAbortError } from '@/lib/abort';
+import { estimateAttachmentTokens, summarizeAttachment } from '@/lib/api/attachments';
+import { apiError } from '@/lib/api/errors';
+import { extractSpec } from '@/lib/api/extractSpec';
+import { instrument } from '@/lib/api/instrument';
+import { readModelRequest } from '@/lib/api/modelRequest';
+import { buildMessages, maxTokensFor } from '@/lib/api/prompts';
+import { estimateTokens } from '@/lib/api/rateLimit';
+import { errorResponse, upstreamError } from '@/lib/api/responses';
+import type { CacheStatus } from '@/lib/api/responseCache';
+import { parseGenerateRequest, type CompletionResponse, type SummarizeAttachmentResponse } from '@/lib/api/schema';
+import { suggestAnswers } from '@/lib/api/suggestions';
+import { LLMConfigError } from '@/lib/llm';
+import type { AppSpec } from '@/lib/spec';
+import { encodeSSE } from '@/lib/sse';
 
 export async function POST(request: Request) {
-  if (!process.env.NEXT_PUBLIC_OPENAI_API_KEY) {
-    return NextResponse.json({ error: "OpenAI API key not configured" }, { status: 500 });
-  }
+  const prepared = await readModelRequest(request, parseGenerateRequest);
+  if (prepared instanceof Response) return prepared;
+  const { llm, data, recordUsage } = prepared;
+
+  // Aborted when the client disconnects or cancels the stream, and passed all the way upstream.
+  const upstream = new AbortController();
+  request.signal.addEventListener('abort', () => upstream.abort(), { once: true });
 
   try {
-    const body = await request.json();
-    const { model, messages, max_tokens } = body;
+    // Each kind of call is cached and tracked separately; only the main completion's cache status is reported.
+    const sessionId = request.headers.get('x-session-id');
+    const useCache = !data.noCache;
+    const main = instrument(llm, { route: 'openai', task: data.task, sessionId, useCache });
+
+    if (data.task === 'summarize-attachment') {
+      const summary = await summarizeAttachment(main.llm, data.attachment, upstream.signal);
+      recordUsage(estimateAttachmentTokens(data.attachment) + estimateTokens(summary));
+      const response: SummarizeAttachmentResponse = { summary, cache: main.cacheStatus() };
+      return NextResponse.json(response);
+    }
+
+    let spec = data.spec;
+    const extraction = instrument(llm, { route: 'openai', task: 'extract-spec', sessionId, useCache });
+    const suggestion = instrument(llm, { route: 'openai', task: 'suggestions', sessionId, useCache });
+    const provider = main.llm.provider;
+    const cacheStatus = main.cacheStatus;
+
+    if (data.task === 'next-question' && data.spec) {
+      try {
+        spec = await extractSpec(extraction.llm, data.spec, data.question, data.answer, upstream.signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // A missed extraction only loses this answer's spec update; the interview can go on.
+        console.error('Spec extraction error:', error);
+      } finally {
+        // Extraction counts against the budget whether or not it succeeded.
+        recordUsage(extraction.tokens());
+      }
+    }
 
-    const completion = await openai.chat.completions.create({
-      model,
+    const updatedSpec = data.task === 'next-question' ? spec : undefined;
+    const suggest = async (question: string) => {
+      if (data.task !== 'next-question' || !question.trim()) return [];
+      try {
+        return await suggestAnswers(suggestion.llm, question, spec, upstream.signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Suggestions are a convenience; the question stands without them.
+        console.error('Suggestion error:', error);
+        return [];
+      } finally {
+        recordUsage(suggestion.tokens());
+      }
+    };
+    const messages = buildMessages(data, spec);
+    const promptTokens = messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+    const recordCompletion = (output: string) => {
+      if (cacheStatus() === 'hit') return;
+      recordUsage(promptTokens + estimateTokens(output));
+    };
+    const completionRequest = {
+      model: llm.model,
       messages,
-      max_tokens,
-    });
+      maxTokens: maxTokensFor(data, llm.policy.maxTokens),
+      signal: upstream.signal,
+    };
 
-    return NextResponse.json(completion.choices[0]);
-  } catch (error: any) {
-    console.error('OpenAI API error:', error);
-    return NextResponse.json({ error: error.message || 'An error occurred' }, { status: 500 });
+    if (data.stream) {
+      const stream = toEventStream(provider.stream(completionRequest), {
+        spec: updatedSpec,
+        onCancel: () => upstream.abort(),
+        onFinish: recordCompletion,
+        suggest,
+        meta: () => ({ cache: cacheStatus() }),
+      });
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+        },
+      });
+    }
+
+    const completion = await provider.complete(completionRequest);
+    recordCompletion(completion.content);
+    const suggestions = await suggest(completion.content);
+
+    const response: CompletionResponse = {
+      index: 0,
+      message: { role: 'assistant', content: completion.content },
+      finish_reason: completion.finishReason,
+      cache: cacheStatus(),
+      ...(updatedSpec ? { spec: updatedSpec } : {}),
+      ...(suggestions.length ? { suggestions } : {}),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (isAbortError(error)) {
+      // Client closed request; nobody is listening for a body.
+      return new Response(null, { status: 499 });
+    }
+    if (error instanceof LLMConfigError) {
+      // E.g. an image attachment without a vision-capable model.
+      console.error('LLM configuration error:', error.message);
+      return errorResponse(apiError('CONFIG_MISSING', error.message));
+    }
+    console.error(`LLM provider (${llm.provider.name}) error:`, error);
+    return errorResponse(upstreamError(error));
   }
-}
\ No newline at end of file
+}
+
+interface EventStreamOptions {
+  spec?: AppSpec;
+  onCancel: () => void;
+  onFinish: (output: string) => void;
+  // Runs on the finished text; its result is sent as a `suggestions` event.
+  suggest: (output: string) => Promise<string[]>;
+  // Sent as a `meta` event once the stream is complete, e.g. whether it was served from cache.
+  meta: () => { cache: CacheStatus };
+}
+
+function toEventStream(deltas: AsyncIterable<string>, { spec, onCancel, onFinish, suggest, meta }: EventStreamOptions) {
+  let cancelled = false;
+  let output = '';
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        if (spec) {
+          controller.enqueue(encodeSSE({ spec }, 'spec'));
+        }
+        for await (const delta of deltas) {
+          if (cancelled) return;
+          output += delta;
+          controller.enqueue(encodeSSE({ delta }));
+        }
+        const suggestions = await suggest(output);
+        if (cancelled) return;
+        if (suggestions.length) {
+          controller.enqueue(encodeSSE({ suggestions }, 'suggestions'));
+        }
+        controller.enqueue(encodeSSE(meta(), 'meta'));
+        controller.enqueue(encodeSSE('[DONE]'));
+      } catch (error) {
+        if (cancelled || isAbortError(error)) return;
+        console.error('LLM stream error:', error);
+        controller.enqueue(encodeSSE(upstreamError(error), 'error'));
+      } finally {
+        // Tokens already generated are billed upstream even when the client went away.
+        onFinish(output);
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      onCancel();
+    },
+  });
+}
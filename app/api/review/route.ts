@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { isAbortError } from '@/lib/abort';
+import { instrument } from '@/lib/api/instrument';
+import { readModelRequest } from '@/lib/api/modelRequest';
+import { errorResponse, upstreamError } from '@/lib/api/responses';
+import { reviewInterview } from '@/lib/api/review';
+import { parseReviewRequest } from '@/lib/api/schema';
+import type { ReviewResponse } from '@/lib/review';
+
+export async function POST(request: Request) {
+  const prepared = await readModelRequest(request, parseReviewRequest);
+  if (prepared instanceof Response) return prepared;
+  const { llm, data, recordUsage } = prepared;
+
+  const { turns, spec, dismissed = [], noCache } = data;
+  const reviewer = instrument(llm, {
+    route: 'review',
+    task: 'review',
+    sessionId: request.headers.get('x-session-id'),
+    useCache: !noCache,
+  });
+
+  try {
+    const issues = await reviewInterview(reviewer.llm, turns, spec, request.signal);
+    const response: ReviewResponse = { issues: issues.filter(issue => !dismissed.includes(issue.id)) };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (isAbortError(error)) {
+      return new Response(null, { status: 499 });
+    }
+    console.error(`LLM provider (${llm.provider.name}) review error:`, error);
+    return errorResponse(upstreamError(error));
+  } finally {
+    // Charged from what the provider reported, so cache hits stay free and failed calls still count.
+    recordUsage(reviewer.tokens());
+  }
+}
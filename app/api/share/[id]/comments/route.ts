@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { readTextWithin } from '@/lib/api/body';
+import { apiError } from '@/lib/api/errors';
+import { clientKeys, getRateLimiter } from '@/lib/api/rateLimit';
+import { errorResponse, rateLimitedResponse } from '@/lib/api/responses';
+import { parseCommentRequest } from '@/lib/api/schema';
+import { getShareStore, SHARE_LIMITS, type ShareComment } from '@/lib/sharing';
+
+interface CommentsRouteContext {
+  params: { id: string };
+}
+
+// Anyone with the link can comment; that's the point of sharing it for review.
+export async function POST(request: Request, { params }: CommentsRouteContext) {
+  const limiter = getRateLimiter();
+  const limit = await limiter.check(clientKeys(request, limiter.config));
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit);
+  }
+
+  const text = await readTextWithin(request, SHARE_LIMITS.commentBytes);
+  if (text === null) {
+    return errorResponse(apiError('INVALID_REQUEST', `A comment must be at most ${SHARE_LIMITS.commentBytes} bytes`));
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return errorResponse(apiError('INVALID_REQUEST', 'Request body must be valid JSON'));
+  }
+
+  const parsed = parseCommentRequest(body);
+  if (!parsed.success) {
+    return errorResponse(apiError('INVALID_REQUEST', 'Invalid request body', { issues: parsed.issues }));
+  }
+
+  const comment: ShareComment = { id: randomUUID(), ...parsed.data, createdAt: new Date().toISOString() };
+  let rejection: string | null = null;
+  const updated = await getShareStore().update(params.id, shared => {
+    if (comment.turn >= shared.session.turns.length) {
+      rejection = 'There is no answer at that position';
+    } else if (shared.comments.length >= SHARE_LIMITS.commentsPerShare) {
+      rejection = `A shared session can have at most ${SHARE_LIMITS.commentsPerShare} comments`;
+    }
+    return rejection ? shared : { ...shared, comments: [...shared.comments, comment] };
+  });
+
+  if (!updated) {
+    return errorResponse(apiError('NOT_FOUND', 'This shared session does not exist or was revoked'));
+  }
+  if (rejection) {
+    return errorResponse(apiError('INVALID_REQUEST', rejection));
+  }
+  return NextResponse.json({ comment }, { status: 201 });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { readTextWithin } from '@/lib/api/body';
+import { apiError } from '@/lib/api/errors';
+import { clientKeys, getRateLimiter } from '@/lib/api/rateLimit';
+import { errorResponse, rateLimitedResponse } from '@/lib/api/responses';
+import { parseShareRequest } from '@/lib/api/schema';
+import { getShareStore, isOwner, SHARE_LIMITS, snapshotSession } from '@/lib/sharing';
+
+interface ShareRouteContext {
+  params: { id: string };
+}
+
+const OWNER_HEADER = 'x-owner-token';
+
+const notFound = () => errorResponse(apiError('NOT_FOUND', 'This shared session does not exist or was revoked'));
+const forbidden = () => errorResponse(apiError('FORBIDDEN', 'Only the owner can change this shared session'));
+
+// Replaces the published copy with the owner's current session; comments are kept.
+export async function PUT(request: Request, { params }: ShareRouteContext) {
+  const limiter = getRateLimiter();
+  const limit = await limiter.check(clientKeys(request, limiter.config));
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit);
+  }
+
+  const store = getShareStore();
+  const existing = await store.get(params.id);
+  if (!existing) return notFound();
+  if (!isOwner(existing, request.headers.get(OWNER_HEADER))) return forbidden();
+
+  const text = await readTextWithin(request, SHARE_LIMITS.documentBytes);
+  if (text === null) {
+    return errorResponse(apiError('INVALID_REQUEST', `The session must be at most ${SHARE_LIMITS.documentBytes} bytes`));
+  }
+
+  const parsed = parseShareRequest(text);
+  if (!parsed.success) {
+    return errorResponse(apiError('INVALID_REQUEST', 'Invalid session document', { issues: parsed.issues }));
+  }
+
+  const updated = await store.update(params.id, shared => ({
+    ...shared,
+    ...snapshotSession(parsed.data),
+    updatedAt: new Date().toISOString(),
+  }));
+  if (!updated) return notFound();
+  return NextResponse.json({ id: updated.id, updatedAt: updated.updatedAt });
+}
+
+// Revokes the link; the record and its comments are deleted.
+export async function DELETE(request: Request, { params }: ShareRouteContext) {
+  const store = getShareStore();
+  const existing = await store.get(params.id);
+  if (!existing) return notFound();
+  if (!isOwner(existing, request.headers.get(OWNER_HEADER))) return forbidden();
+
+  await store.delete(params.id);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { readTextWithin } from '@/lib/api/body';
+import { apiError } from '@/lib/api/errors';
+import { clientKeys, getRateLimiter } from '@/lib/api/rateLimit';
+import { errorResponse, rateLimitedResponse } from '@/lib/api/responses';
+import { parseShareRequest } from '@/lib/api/schema';
+import { createSharedSession, getShareStore, SHARE_LIMITS } from '@/lib/sharing';
+
+// Publishes a read-only copy of a session. The owner token is only ever returned here.
+export async function POST(request: Request) {
+  const limiter = getRateLimiter();
+  const limit = await limiter.check(clientKeys(request, limiter.config));
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit);
+  }
+
+  const text = await readTextWithin(request, SHARE_LIMITS.documentBytes);
+  if (text === null) {
+    return errorResponse(apiError('INVALID_REQUEST', `The session must be at most ${SHARE_LIMITS.documentBytes} bytes`));
+  }
+
+  const parsed = parseShareRequest(text);
+  if (!parsed.success) {
+    return errorResponse(apiError('INVALID_REQUEST', 'Invalid session document', { issues: parsed.issues }));
+  }
+
+  const { shared, ownerToken } = createSharedSession(parsed.data);
+  await getShareStore().put(shared);
+
+  return NextResponse.json({ id: shared.id, ownerToken, publishedAt: shared.publishedAt }, { status: 201 });
+}
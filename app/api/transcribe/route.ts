@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { isAbortError } from '@/lib/abort';
+import { apiError } from '@/lib/api/errors';
+import { trackCall } from '@/lib/api/instrument';
+import { clientKeys, getRateLimiter } from '@/lib/api/rateLimit';
+import { errorResponse, rateLimitedResponse, upstreamError } from '@/lib/api/responses';
+import {
+  estimateTranscriptionUsage,
+  MAX_AUDIO_BYTES,
+  MAX_TRANSCRIBE_BODY_BYTES,
+  readTranscriptionConfig,
+  transcribeAudio,
+  type TranscriptionConfig,
+} from '@/lib/api/transcribe';
+import { LLMConfigError } from '@/lib/llm';
+
+export async function POST(request: Request) {
+  let config: TranscriptionConfig;
+  try {
+    config = readTranscriptionConfig();
+  } catch (error) {
+    if (error instanceof LLMConfigError) {
+      console.error('Transcription configuration error:', error.message);
+      return errorResponse(apiError('CONFIG_MISSING', 'The transcription service is not configured'));
+    }
+    throw error;
+  }
+
+  const limiter = getRateLimiter();
+  const keys = clientKeys(request, limiter.config);
+  const limit = await limiter.check(keys);
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit);
+  }
+
+  // formData() buffers the whole body, so the size is checked before it is read.
+  const length = Number(request.headers.get('content-length'));
+  if (!length) {
+    return errorResponse(apiError('INVALID_REQUEST', 'A Content-Length header is required'));
+  }
+  if (length > MAX_TRANSCRIBE_BODY_BYTES) {
+    return errorResponse(apiError('INVALID_REQUEST', 'The recording is too long', {
+      issues: [{ path: 'audio', message: `Expected at most ${MAX_AUDIO_BYTES} bytes` }],
+    }));
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return errorResponse(apiError('INVALID_REQUEST', 'Request body must be multipart form data'));
+  }
+
+  const audio = form.get('audio');
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    return errorResponse(apiError('INVALID_REQUEST', 'An audio file is required', {
+      issues: [{ path: 'audio', message: 'Expected a non-empty file' }],
+    }));
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    return errorResponse(apiError('INVALID_REQUEST', 'The recording is too long', {
+      issues: [{ path: 'audio', message: `Expected at most ${MAX_AUDIO_BYTES} bytes` }],
+    }));
+  }
+
+  // Browsers send tags like "en-US"; Whisper wants the ISO 639-1 part.
+  const language = form.get('language');
+  const code = typeof language === 'string' ? language.split('-')[0].toLowerCase() : '';
+  const fileName = audio instanceof File && audio.name ? audio.name : 'speech.webm';
+
+  const call = {
+    route: 'transcribe' as const,
+    task: 'transcribe',
+    sessionId: request.headers.get('x-session-id'),
+    provider: 'transcription',
+    model: config.model,
+    startedAt: Date.now(),
+  };
+
+  try {
+    const text = await transcribeAudio(config, audio, fileName, /^[a-z]{2}$/.test(code) ? code : null, request.signal);
+    const usage = estimateTranscriptionUsage(audio.size, text);
+    trackCall({ ...call, usage });
+    limiter.recordUsage(keys, usage.promptTokens + usage.completionTokens)
+      .catch(error => console.error('Error recording usage:', error));
+    return NextResponse.json({ text });
+  } catch (error) {
+    trackCall({ ...call, usage: estimateTranscriptionUsage(audio.size, ''), error });
+    if (isAbortError(error)) {
+      return new Response(null, { status: 499 });
+    }
+    console.error('Transcription error:', error);
+    return errorResponse(upstreamError(error));
+  }
+}
@@ -1,153 +1,830 @@
 'use client'
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from "./ui/button";
-import { Input } from "./ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { ToastAction } from "./ui/toast";
+import { useToast } from "./ui/use-toast";
+import AnswerEditor from './AnswerEditor';
+import AttachmentsPanel from './AttachmentsPanel';
+import BranchPanel from './BranchPanel';
+import CompletenessMeter from './CompletenessMeter';
+import ExportMenu from './ExportMenu';
+import MicButton from './MicButton';
+import ReviewPanel from './ReviewPanel';
+import SessionMenu from './SessionMenu';
+import ShareMenu from './ShareMenu';
+import SpecImportPanel from './SpecImportPanel';
+import SpecPanel from './SpecPanel';
+import StrategyPicker from './StrategyPicker';
+import SuggestionChips from './SuggestionChips';
+import TriggerSettingsPanel from './TriggerSettingsPanel';
+import TurnNavigator from './TurnNavigator';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useSessions } from '../hooks/useSessions';
+import { useTriggerSettings } from '../hooks/useTriggerSettings';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import { isAbortError } from '@/lib/abort';
+import type { AttachmentInput } from '@/lib/api/attachments';
+import { apiRequestError, describeError, readApiError } from '@/lib/api/client';
+import type { IngestResult } from '@/lib/api/ingest';
+import { LIMITS, type GenerateRequest, type GenerateResponse, type StreamEvent } from '@/lib/api/schema';
+import { toReferences } from '@/lib/attachments';
+import { readThreshold, scoreCompleteness } from '@/lib/completeness';
+import { getStrategy } from '@/lib/interviews';
+import { createDebouncer, createQuestionRunner, type RunContext } from '@/lib/questionRunner';
+import { decideTrigger } from '@/lib/triggers';
+import type { ReviewIssue, ReviewResponse } from '@/lib/review';
+import {
+  addAttachment,
+  appendTurn,
+  askFollowUp,
+  deleteBranch,
+  dismissIssue,
+  forkAt,
+  removeAttachment,
+  switchBranch,
+} from '@/lib/session';
+import type { ShareLink } from '@/lib/sharing/types';
+import type { AppSpec } from '@/lib/spec';
+import { parseSSE } from '@/lib/sse';
+import { DOCUMENT_QUESTION, type AnswerSource } from '@/lib/transcript';
+import { createTranscriber, readTranscriberId, TranscriptionError } from '@/lib/transcription';
 
-interface OpenAIRequestData {
-  model: string;
-  messages: { role: string; content: string }[];
-  max_tokens?: number;
+const READY_THRESHOLD = readThreshold(process.env.NEXT_PUBLIC_READY_THRESHOLD);
+const TRANSCRIBER_ID = readTranscriberId(process.env.NEXT_PUBLIC_TRANSCRIPTION);
+
+interface QuestionInput {
+  prompt: string;
+  source: AnswerSource;
+  // Typing pauses only preview the next question; a turn is recorded when the answer is submitted.
+  mode: 'preview' | 'answer';
+  // Set when answering something other than the current question: an earlier turn, or an imported document.
+  base?: { question: string; spec: AppSpec; turn: number };
 }
 
-const CustomInput = React.forwardRef<HTMLInputElement, React.InputHTMLAttributes<HTMLInputElement>>((props, ref) => (
-  <Input
-    {...props}
-    ref={ref}
-    className={`
-      flex-grow h-[60px] text-[19px] font-normal rounded-full px-6
-      border-none !border-0 outline-none !outline-0
-      focus:ring-0 focus:ring-offset-0 focus:outline-none !focus:border-0
-      placeholder-[#8E8E93]
-      ${props.className}
-    `}
-    style={{
-      boxShadow: 'none',
-      margin: '0',
-      ...props.style,
-    }}
-  />
-));
-
-CustomInput.displayName = 'CustomInput';
+// The question a pause in typing produced for the answer so far. Submitting that same answer
+// records it straight away instead of asking the model again.
+interface QuestionPreview {
+  forQuestion: string;
+  answer: string;
+  question: string;
+  spec: AppSpec | null;
+  suggestions: string[];
+  done: boolean;
+}
 
 const AIChatbotApp: React.FC = () => {
   const [input, setInput] = useState('');
-  const [currentQuestion, setCurrentQuestion] = useState("What kind of app would you like to create?");
+  const {
+    session,
+    setSession,
+    sessions,
+    newSession,
+    resumeSession,
+    renameSession,
+    duplicateSession,
+    deleteSession,
+    importSession,
+  } = useSessions();
+  const { currentQuestion, suggestions, turns, builtPrompt, spec } = session;
+  const strategy = getStrategy(session.strategyId);
+  const completeness = useMemo(() => {
+    const scored = scoreCompleteness(spec, turns, { threshold: READY_THRESHOLD });
+    // A strategy that has asked all its questions is done even if some topics stay open.
+    return { ...scored, isReady: scored.isReady || turns.length >= strategy.targetTurns };
+  }, [spec, turns, strategy.targetTurns]);
   const [isLoading, setIsLoading] = useState(false);
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [preview, setPreview] = useState<QuestionPreview | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [isRunningReview, setIsRunningReview] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<string[]>([]);
+  const [openPanel, setOpenPanel] = useState<'spec' | 'versions' | 'settings' | 'review' | 'references' | null>(null);
+  const [viewIndex, setViewIndex] = useState<number | null>(null);
+  const draftRef = useRef('');
+  const isReviewing = viewIndex !== null && viewIndex < turns.length;
+  const reviewedTurn = isReviewing ? turns[viewIndex] : null;
+  const { toast } = useToast();
+  const buildControllerRef = useRef<AbortController | null>(null);
+  const reviewControllerRef = useRef<AbortController | null>(null);
+  const importControllerRef = useRef<AbortController | null>(null);
+  const lastSubmittedRef = useRef<string | null>(null);
+  const { settings: triggerSettings, updateSettings: updateTriggerSettings } = useTriggerSettings();
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
 
-  const callOpenAI = async (data: OpenAIRequestData) => {
-    const response = await fetch('/api/openai', {
+  const setCurrentQuestion = useCallback((question: string) => {
+    setSession(prev => ({ ...prev, currentQuestion: question }));
+  }, [setSession]);
+
+  const setBuiltPrompt = useCallback((prompt: string | null) => {
+    setSession(prev => ({ ...prev, builtPrompt: prompt, updatedAt: new Date().toISOString() }));
+  }, [setSession]);
+
+  // The session id lets the server rate-limit per session when configured to.
+  const apiHeaders = () => ({
+    'Content-Type': 'application/json',
+    'x-session-id': sessionRef.current.id,
+  });
+
+  const notifyError = (error: unknown, retry?: () => void) => {
+    const { title, description, retryable } = describeError(error);
+    toast({
+      title,
+      description,
+      action: retry && retryable ? (
+        <ToastAction altText="Try again" onClick={retry}>Try again</ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const postJSON = async <T,>(path: string, data: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(path, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify(data),
+      signal,
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API error (${response.status}): ${errorText}`);
+      throw await readApiError(response);
     }
 
     return response.json();
   };
 
-  const generateQuestion = useCallback(async (prompt: string) => {
-    if (!prompt.trim() || isLoading) return;
-    setIsLoading(true);
-    
+  const callOpenAI = <T extends GenerateRequest,>(data: T, signal?: AbortSignal) =>
+    postJSON<GenerateResponse<T>>('/api/openai', data, signal);
+
+  const streamOpenAI = async (
+    data: GenerateRequest,
+    onText: (text: string) => void,
+    onEvent?: (event: StreamEvent) => void,
+    signal?: AbortSignal,
+  ) => {
+    const response = await fetch('/api/openai', {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ ...data, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await readApiError(response);
+    }
+
+    let text = '';
+    for await (const message of parseSSE(response.body)) {
+      if (message.event === 'error') {
+        throw apiRequestError(JSON.parse(message.data));
+      }
+      if (message.data === '[DONE]') break;
+      if (message.event !== 'message') {
+        onEvent?.({ ...JSON.parse(message.data), event: message.event });
+        continue;
+      }
+
+      const { delta } = JSON.parse(message.data);
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+
+    return text;
+  };
+
+  const runQuestion = async (
+    { prompt, source, base, mode }: QuestionInput,
+    { signal, isLatest, markCommitted }: RunContext,
+  ) => {
+    // Queued input runs after earlier turns landed, so read the session at run time.
+    const { question: previousQuestion, spec: previousSpec, turn } = base ?? {
+      question: sessionRef.current.currentQuestion,
+      spec: sessionRef.current.spec,
+      turn: sessionRef.current.turns.length,
+    };
+    let updatedSpec: AppSpec | null = null;
+    let committed = false;
+    const isPreview = mode === 'preview';
+    const isPreviewOf = (current: QuestionPreview | null): current is QuestionPreview =>
+      current?.answer === prompt && current.forQuestion === previousQuestion;
+    if (!isPreview) setIsLoading(true);
+
     try {
-      const response = await callOpenAI({
-        model: "gpt-3.5-turbo",
-        messages: [
-          { role: "system", content: "Generate a short, engaging follow-up question (max 8 words) to refine an app idea." },
-          { role: "user", content: `Previous: "${currentQuestion}". Answer: "${prompt}". Next question:` }
-        ],
-        max_tokens: 30,
-      });
+      const question = await streamOpenAI({
+        task: 'next-question',
+        question: previousQuestion,
+        answer: prompt,
+        spec: previousSpec,
+        strategy: sessionRef.current.strategyId,
+        turn,
+        references: toReferences(sessionRef.current.attachments),
+      }, (text) => {
+        if (!isLatest()) return;
+        // Never marked committed, so the next pause or the submit supersedes it.
+        if (isPreview) {
+          setPreview({ forQuestion: previousQuestion, answer: prompt, question: text, spec: updatedSpec, suggestions: [], done: false });
+          return;
+        }
+        if (!committed) {
+          committed = true;
+          markCommitted();
+          setSession(prev => appendTurn(
+            updatedSpec ? { ...prev, spec: updatedSpec } : prev,
+            { question: previousQuestion, answer: prompt.trim(), source },
+          ));
+          setInput(current => (current.trim() === prompt.trim() ? '' : current));
+          setPreview(null);
+        }
+        setCurrentQuestion(text);
+      }, (event) => {
+        if (event.event === 'spec') {
+          updatedSpec = event.spec;
+        }
+        if (event.event !== 'suggestions' || !isLatest()) return;
+        const { suggestions } = event;
+        if (isPreview) {
+          setPreview(current => (isPreviewOf(current) ? { ...current, suggestions } : current));
+        }
+        if (committed) {
+          setSession(prev => ({ ...prev, suggestions }));
+        }
+      }, signal);
 
-      if (response?.message?.content) {
-        setCurrentQuestion(response.message.content);
-      } else {
+      if (isPreview) {
+        if (isLatest() && question.trim()) {
+          setPreview(current => (isPreviewOf(current) ? { ...current, done: true } : current));
+        }
+        return;
+      }
+      if (isLatest() && !question.trim()) {
         setCurrentQuestion("Can you elaborate on that?");
       }
     } catch (error) {
+      if (isAbortError(error) || !isLatest()) return;
       console.error('Error generating question:', error);
-      setCurrentQuestion("Let's try a different approach. Any ideas?");
+      // A failed preview changes nothing; submitting the answer asks again and reports errors.
+      if (isPreview) return;
+      if (committed) {
+        // The answer is already saved; only the half-streamed question is lost.
+        setCurrentQuestion("Can you elaborate on that?");
+        notifyError(error);
+      } else {
+        // Nothing changed yet, so the question and the typed answer stay put for a retry.
+        notifyError(error, () => generateQuestion(prompt, base, source));
+      }
     } finally {
-      setIsLoading(false);
+      // An answer aborted by a newer one leaves the spinner to it; one aborted by a cancel clears it.
+      if (!isPreview && (isLatest() || !questionRunner.isBusy())) setIsLoading(false);
     }
-  }, [currentQuestion, isLoading]);
+  };
 
-  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const newInput = e.target.value;
-    setInput(newInput);
+  const runQuestionRef = useRef(runQuestion);
+  runQuestionRef.current = runQuestion;
+  // Answers and previews run separately, so a preview can never abort or replace an answer.
+  const [questionRunner] = useState(() =>
+    createQuestionRunner<QuestionInput>((input, context) => runQuestionRef.current(input, context)),
+  );
+  const [previewRunner] = useState(() =>
+    createQuestionRunner<QuestionInput>((input, context) => runQuestionRef.current(input, context)),
+  );
+  const cancelQuestions = useCallback(() => {
+    questionRunner.cancel();
+    previewRunner.cancel();
+  }, [questionRunner, previewRunner]);
+
+  const generateQuestion = useCallback((
+    prompt: string,
+    base?: QuestionInput['base'],
+    source: AnswerSource = 'typed',
+  ) => {
+    if (prompt.trim()) {
+      lastSubmittedRef.current = prompt;
+      previewRunner.cancel();
+      setPreview(null);
+      questionRunner.submit({ prompt, source, base, mode: 'answer' });
+    }
+  }, [questionRunner, previewRunner]);
+
+  // While an answer is pending or queued, the question it produces would make any preview stale.
+  const [typingDebouncer] = useState(() => createDebouncer<string>(text => {
+    if (questionRunner.isBusy()) return;
+    lastSubmittedRef.current = text;
+    previewRunner.submit({ prompt: text, source: 'typed', mode: 'preview' });
+  }));
+
+  useEffect(() => {
+    setInput('');
+    setViewIndex(null);
+    draftRef.current = '';
+    lastSubmittedRef.current = null;
+    setPreview(null);
+    typingDebouncer.cancel();
+    cancelQuestions();
+    buildControllerRef.current?.abort();
+    reviewControllerRef.current?.abort();
+    importControllerRef.current?.abort();
+    setIsImportOpen(false);
+    setIsLoading(false);
+  }, [session.id, cancelQuestions, typingDebouncer]);
+
+  const buildPrompt = async () => {
+    if (!turns.length || isBuilding) return;
+    const controller = new AbortController();
+    buildControllerRef.current = controller;
+    setIsBuilding(true);
+
+    try {
+      const response = await callOpenAI(
+        { task: 'build-prompt', turns, spec, references: toReferences(session.attachments) },
+        controller.signal,
+      );
+
+      if (response?.message?.content) {
+        setBuiltPrompt(response.message.content);
+      } else {
+        toast({ title: "Couldn't build the prompt", description: "The model returned an empty response." });
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error building prompt:', error);
+      notifyError(error, () => buildPromptRef.current());
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  // The retry toast outlives this render; read the latest turns when it fires.
+  const buildPromptRef = useRef(buildPrompt);
+  buildPromptRef.current = buildPrompt;
+
+  const runReview = async () => {
+    if (!turns.length) return;
+    reviewControllerRef.current?.abort();
+    const controller = new AbortController();
+    reviewControllerRef.current = controller;
+    setIsRunningReview(true);
+    setOpenPanel('review');
+
+    try {
+      const { issues } = await postJSON<ReviewResponse>(
+        '/api/review',
+        { turns, spec, dismissed: session.dismissedIssueIds },
+        controller.signal,
+      );
+      setSession(prev => ({ ...prev, reviewIssues: issues }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error reviewing answers:', error);
+      notifyError(error, () => runReviewRef.current());
+    } finally {
+      if (reviewControllerRef.current === controller) setIsRunningReview(false);
+    }
+  };
+
+  const runReviewRef = useRef(runReview);
+  runReviewRef.current = runReview;
+
+  // The document's summary is recorded as the answer to a stand-in question, so it reaches the
+  // transcript and the final prompt; the next question then aims at what the document left open.
+  const importSpec = async (document: string) => {
+    importControllerRef.current?.abort();
+    const controller = new AbortController();
+    importControllerRef.current = controller;
+    setIsImporting(true);
 
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+    try {
+      const imported = await postJSON<IngestResult>('/api/ingest', { document, spec }, controller.signal);
+      setSession(prev => ({ ...prev, spec: imported.spec }));
+      setIsImportOpen(false);
+      showTurn(null);
+      generateQuestion(
+        imported.summary,
+        { question: DOCUMENT_QUESTION, spec: imported.spec, turn: turns.length },
+        'document',
+      );
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error importing spec:', error);
+      notifyError(error, () => importSpecRef.current(document));
+    } finally {
+      if (importControllerRef.current === controller) setIsImporting(false);
+    }
+  };
+
+  const importSpecRef = useRef(importSpec);
+  importSpecRef.current = importSpec;
+
+  // Bound to the session that was shared, even if the user switched away while the request ran.
+  const shareSession = (share: ShareLink | null) => {
+    const sessionId = sessionRef.current.id;
+    setSession(prev => (prev.id === sessionId ? { ...prev, share } : prev));
+  };
+
+  // The summary lands in the session the file was attached to, even if the user switched away meanwhile.
+  const attachFile = async (attachment: AttachmentInput) => {
+    const sessionId = sessionRef.current.id;
+    setPendingAttachments(pending => [...pending, attachment.name]);
+
+    try {
+      const { summary } = await callOpenAI({ task: 'summarize-attachment', attachment });
+      setSession(prev => (prev.id === sessionId
+        ? addAttachment(prev, { kind: attachment.kind, name: attachment.name, summary })
+        : prev));
+    } catch (error) {
+      console.error('Error summarizing attachment:', error);
+      notifyError(error, () => attachFile(attachment));
+    } finally {
+      setPendingAttachments(pending => {
+        const index = pending.indexOf(attachment.name);
+        return index === -1 ? pending : [...pending.slice(0, index), ...pending.slice(index + 1)];
+      });
+    }
+  };
+
+  const answerFollowUp = (issue: ReviewIssue) => {
+    // A question still streaming in would overwrite the follow-up.
+    cancelQuestions();
+    setPreview(null);
+    setIsLoading(false);
+    setSession(prev => askFollowUp(prev, issue));
+    showTurn(null);
+    setOpenPanel(null);
+  };
+
+  const copyBuiltPrompt = async () => {
+    if (!builtPrompt) return;
+    try {
+      await navigator.clipboard.writeText(builtPrompt);
+      toast({ title: "Prompt copied", description: "Paste it into your code generator." });
+    } catch (error) {
+      console.error('Error copying prompt:', error);
+      toast({ title: "Couldn't copy the prompt", description: "Select the text and copy it manually." });
+    }
+  };
+
+  const showTurn = (index: number | null) => {
+    if (index === null || index >= turns.length) {
+      setViewIndex(null);
+      setInput(draftRef.current);
+      return;
     }
+    if (!isReviewing) {
+      draftRef.current = input;
+    }
+    setViewIndex(index);
+    setInput(turns[index].answer);
+  };
+
+  // Editing an earlier answer keeps the old line as a branch and regenerates from the edit.
+  const submitEditedAnswer = (index: number, answer: string) => {
+    if (answer.trim() === turns[index].answer) {
+      showTurn(null);
+      return;
+    }
+
+    // Whatever the old line was still generating must not land in the fork.
+    cancelQuestions();
+    const forked = forkAt(session, index);
+    setSession(forked);
+    setViewIndex(null);
+    draftRef.current = '';
+    generateQuestion(answer, { question: forked.currentQuestion, spec: forked.spec, turn: index });
+  };
+
+  // Typed text and voice transcripts both go through here, so they share the trigger and debounce rules.
+  const updateInput = useCallback((newInput: string) => {
+    setInput(newInput);
 
-    const lastChar = newInput.trim().slice(-1);
-    const delay = lastChar === '.' ? 0 : lastChar === ',' ? 500 : 1000;
+    typingDebouncer.cancel();
+    if (!newInput.trim()) setPreview(null);
+    // Too long to send; the editor's counter already says so.
+    if (isReviewing || newInput.length > LIMITS.answer) return;
 
-    typingTimeoutRef.current = setTimeout(() => {
-      if (newInput.trim() && (lastChar === '.' || lastChar === ',' || delay === 1000)) {
-        generateQuestion(newInput);
+    const delay = decideTrigger({ text: newInput, lastSubmitted: lastSubmittedRef.current }, triggerSettings);
+    if (delay === null) return;
+
+    typingDebouncer.schedule(newInput, delay);
+  }, [typingDebouncer, isReviewing, triggerSettings]);
+
+  // Transcripts cover everything said since the mic went on. When the input changed in between (the answer was
+  // submitted, or edited by hand), only what was said after that is appended to the new input.
+  const voiceRef = useRef({ prefix: '', heard: '', consumed: '', written: '' });
+  const transcriber = useMemo(() => createTranscriber(TRANSCRIBER_ID, {
+    headers: () => ({ 'x-session-id': sessionRef.current.id }),
+  }), []);
+  const voice = useVoiceInput(transcriber, {
+    onTranscript: text => {
+      const state = voiceRef.current;
+      if (input !== state.written) {
+        state.prefix = input.trim();
+        state.consumed = state.heard;
+      }
+      const fresh = text.startsWith(state.consumed) ? text.slice(state.consumed.length) : text;
+      state.heard = text;
+      state.written = `${state.prefix} ${fresh.trim()}`.trim();
+      updateInput(state.written);
+    },
+    onError: error => {
+      if (error instanceof TranscriptionError) {
+        toast({ title: 'Voice input stopped', description: error.message });
+      } else {
+        notifyError(error);
       }
-    }, delay);
-  }, [generateQuestion]);
+    },
+  });
+
+  const startVoiceInput = () => {
+    voiceRef.current = { prefix: input.trim(), heard: '', consumed: '', written: input };
+    voice.start();
+  };
+
+  const answerWithSuggestion = (suggestion: string) => {
+    typingDebouncer.cancel();
+    setInput(suggestion);
+    generateQuestion(suggestion, undefined, 'suggestion');
+  };
+
+  // Records the answer with the question its preview already produced.
+  const commitPreview = ({ answer, question, spec: previewSpec, suggestions: previewSuggestions }: QuestionPreview) => {
+    previewRunner.cancel();
+    setSession(prev => ({
+      ...appendTurn(previewSpec ? { ...prev, spec: previewSpec } : prev, {
+        question: prev.currentQuestion,
+        answer: answer.trim(),
+        source: 'typed',
+      }),
+      currentQuestion: question,
+      suggestions: previewSuggestions,
+    }));
+    setInput('');
+    setPreview(null);
+  };
 
   const handleInputSubmit = () => {
-    if (input.trim()) {
+    if (!input.trim() || input.length > LIMITS.answer) return;
+    typingDebouncer.cancel();
+    // A pending answer is about to change the question, so a preview of the current one no longer applies.
+    const previewReady = preview?.done && preview.answer.trim() === input.trim() && preview.forQuestion === currentQuestion;
+    if (isReviewing && viewIndex !== null) {
+      submitEditedAnswer(viewIndex, input);
+    } else if (preview && previewReady && !questionRunner.isBusy()) {
+      commitPreview(preview);
+    } else {
       generateQuestion(input);
     }
   };
 
   useEffect(() => {
     return () => {
-      if (typingTimeoutRef.current) {
-        clearTimeout(typingTimeoutRef.current);
-      }
+      typingDebouncer.cancel();
+      cancelQuestions();
+      buildControllerRef.current?.abort();
     };
-  }, []);
+  }, [cancelQuestions, typingDebouncer]);
 
   return (
     <div className="flex flex-col items-center justify-between min-h-screen w-full text-foreground p-4 bg-gray-100 font-['SF Pro Display', 'Helvetica', 'Arial', sans-serif] antialiased">
-      <div className="w-full max-w-[800px] flex flex-col items-center">
-        <AnimatePresence mode="wait">
-          <motion.div
-            key={currentQuestion}
-            initial={{ opacity: 0, filter: 'blur(10px)' }}
-            animate={{ opacity: 1, filter: 'blur(0px)' }}
-            exit={{ opacity: 0, filter: 'blur(10px)' }}
-            transition={{ duration: 0.5 }}
-            className="w-full h-[calc(100vh-200px)] flex items-center justify-center overflow-hidden"
+      <div className="fixed top-4 left-4 z-10 flex flex-col items-start gap-2">
+        <div className="flex gap-2">
+          <SessionMenu
+            currentId={session.id}
+            sessions={sessions}
+            onNew={newSession}
+            onResume={resumeSession}
+            onRename={renameSession}
+            onDuplicate={duplicateSession}
+            onDelete={deleteSession}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full bg-white"
+            onClick={() => setOpenPanel(open => (open === 'spec' ? null : 'spec'))}
           >
-            <div className="text-[40px] font-normal text-foreground leading-tight text-center px-4">
-              {currentQuestion}
-            </div>
-          </motion.div>
-        </AnimatePresence>
+            {openPanel === 'spec' ? 'Hide spec' : 'Spec'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full bg-white"
+            onClick={() => setOpenPanel(open => (open === 'settings' ? null : 'settings'))}
+          >
+            Settings
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full bg-white"
+            onClick={() => setOpenPanel(open => (open === 'references' ? null : 'references'))}
+          >
+            References{session.attachments.length > 0 && ` (${session.attachments.length})`}
+          </Button>
+          {(session.reviewIssues.length > 0 || openPanel === 'review') && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-full bg-white"
+              onClick={() => setOpenPanel(open => (open === 'review' ? null : 'review'))}
+            >
+              Review ({session.reviewIssues.length})
+            </Button>
+          )}
+          {session.branches.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-full bg-white"
+              onClick={() => setOpenPanel(open => (open === 'versions' ? null : 'versions'))}
+            >
+              Versions ({session.branches.length})
+            </Button>
+          )}
+        </div>
+        {openPanel === 'spec' && <SpecPanel spec={spec} />}
+        {openPanel === 'review' && (
+          <ReviewPanel
+            issues={session.reviewIssues}
+            isReviewing={isRunningReview}
+            onRerun={runReview}
+            onAnswer={answerFollowUp}
+            onDismiss={issueId => setSession(prev => dismissIssue(prev, issueId))}
+          />
+        )}
+        {openPanel === 'references' && (
+          <AttachmentsPanel
+            attachments={session.attachments}
+            pending={pendingAttachments}
+            onAttach={attachFile}
+            onAddLink={(url, note) => setSession(prev => addAttachment(prev, {
+              kind: 'url',
+              name: new URL(url).hostname,
+              url,
+              summary: note || 'No description given.',
+            }))}
+            onRemove={attachmentId => setSession(prev => removeAttachment(prev, attachmentId))}
+            onReject={(name, reason) => toast({ title: `Couldn't attach ${name}`, description: reason })}
+          />
+        )}
+        {openPanel === 'settings' && (
+          <TriggerSettingsPanel settings={triggerSettings} onChange={updateTriggerSettings} />
+        )}
+        {openPanel === 'versions' && session.branches.length > 0 && (
+          <BranchPanel
+            session={session}
+            onSwitch={branchId => {
+              setSession(prev => switchBranch(prev, branchId));
+              showTurn(null);
+            }}
+            onDelete={branchId => setSession(prev => deleteBranch(prev, branchId))}
+          />
+        )}
+      </div>
+      <div className="fixed top-4 right-4 z-10 flex gap-2">
+        <ShareMenu session={session} onShareChange={shareSession} />
+        <ExportMenu
+          session={session}
+          onImport={importSession}
+          onTemplateChange={templateId => setSession(prev => ({ ...prev, templateId }))}
+        />
+      </div>
+      <div className="w-full max-w-[800px] flex flex-col items-center">
+        {builtPrompt ? (
+          <Card className="w-full mt-8">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-xl">Your webapp prompt</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setBuiltPrompt(null)}>
+                  Back to interview
+                </Button>
+                <Button size="sm" onClick={copyBuiltPrompt}>
+                  Copy
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <pre className="whitespace-pre-wrap text-sm leading-relaxed max-h-[calc(100vh-320px)] overflow-y-auto">
+                {builtPrompt}
+              </pre>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={isReviewing ? `review-${viewIndex}` : `live-${turns.length}`}
+                initial={{ opacity: 0, filter: 'blur(10px)' }}
+                animate={{ opacity: 1, filter: 'blur(0px)' }}
+                exit={{ opacity: 0, filter: 'blur(10px)' }}
+                transition={{ duration: 0.5 }}
+                className="w-full h-[calc(100vh-240px)] flex items-center justify-center overflow-hidden"
+              >
+                <div className="text-[40px] font-normal text-foreground leading-tight text-center px-4">
+                  {(reviewedTurn?.question ?? currentQuestion).split(' ').map((word, index) => (
+                    <motion.span
+                      key={index}
+                      initial={{ opacity: 0, filter: 'blur(4px)' }}
+                      animate={{ opacity: 1, filter: 'blur(0px)' }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      {word}{' '}
+                    </motion.span>
+                  ))}
+                </div>
+              </motion.div>
+            </AnimatePresence>
+            {!isReviewing && preview?.question && preview.forQuestion === currentQuestion && input.trim() && (
+              <p className="w-full mb-4 text-center text-sm text-muted-foreground">
+                Up next: {preview.question}
+              </p>
+            )}
+            {!isReviewing && suggestions.length > 0 && (
+              <div className="w-full mb-4">
+                <SuggestionChips suggestions={suggestions} disabled={isLoading} onPick={answerWithSuggestion} />
+              </div>
+            )}
+            {turns.length === 0 && (
+              <StrategyPicker
+                strategyId={session.strategyId}
+                onChange={strategyId => setSession(prev => ({ ...prev, strategyId }))}
+              />
+            )}
+            {turns.length > 0 && (
+              <div className="w-full flex flex-col items-center gap-3">
+                <TurnNavigator
+                  position={viewIndex ?? turns.length}
+                  total={turns.length + 1}
+                  onBack={() => showTurn((viewIndex ?? turns.length) - 1)}
+                  onForward={() => showTurn((viewIndex ?? turns.length) + 1)}
+                />
+                <CompletenessMeter completeness={completeness} />
+              </div>
+            )}
+          </>
+        )}
       </div>
       
       <div className="w-full max-w-[800px] bg-white rounded-[20px] shadow-lg p-3 mt-4">
-        <div className="flex items-center gap-3">
-          <CustomInput
-            value={input}
-            onChange={handleInputChange}
-            onKeyPress={(e) => e.key === 'Enter' && handleInputSubmit()}
-            placeholder="Describe your app idea..."
-            className="mt-2 bg-white"
+        {isImportOpen ? (
+          <SpecImportPanel
+            isImporting={isImporting}
+            maxLength={LIMITS.document}
+            onImport={importSpec}
+            onCancel={() => {
+              importControllerRef.current?.abort();
+              setIsImporting(false);
+              setIsImportOpen(false);
+            }}
           />
-          <Button
-            onClick={handleInputSubmit}
-            className="rounded-full w-[60px] h-[60px] p-0 flex items-center justify-center bg-primary hover:bg-primary/90 flex-shrink-0"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-6 h-6 text-primary-foreground">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-            </svg>
-          </Button>
+        ) : (
+          <div className="flex items-end gap-3">
+            <AnswerEditor
+              value={input}
+              onChange={updateInput}
+              onSubmit={handleInputSubmit}
+              placeholder={isReviewing ? "Edit your answer and press Enter to branch from here..." : "Describe your app idea..."}
+              maxLength={LIMITS.answer}
+            />
+            {voice.supported && (
+              <MicButton listening={voice.listening} onStart={startVoiceInput} onStop={voice.stop} />
+            )}
+            <Button
+              onClick={handleInputSubmit}
+              className="rounded-full w-[60px] h-[60px] p-0 flex items-center justify-center bg-primary hover:bg-primary/90 flex-shrink-0"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-6 h-6 text-primary-foreground">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </Button>
+          </div>
+        )}
+        <div className="flex items-center justify-between px-3 pt-2 text-sm text-muted-foreground">
+          <span>{turns.length > 0 && `${turns.length} ${turns.length === 1 ? 'answer' : 'answers'} captured`}</span>
+          <div className="flex gap-1">
+            {!isImportOpen && (
+              <Button variant="ghost" size="sm" onClick={() => setIsImportOpen(true)} disabled={isReviewing}>
+                Paste a spec
+              </Button>
+            )}
+            {turns.length > 0 && (
+              <>
+                <Button variant="ghost" size="sm" onClick={runReview} disabled={isRunningReview}>
+                  {isRunningReview ? 'Reviewing…' : 'Review answers'}
+                </Button>
+                <Button
+                  variant={completeness.isReady ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={buildPrompt}
+                  disabled={isBuilding}
+                >
+                  {isBuilding ? 'Building…' : 'Build prompt'}
+                </Button>
+              </>
+            )}
+          </div>
         </div>
       </div>
     </div>
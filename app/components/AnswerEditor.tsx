@@ -0,0 +1,76 @@
+'use client'
+
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { Button } from "./ui/button";
+import MarkdownPreview from './MarkdownPreview';
+import { estimateTokens } from '@/lib/tokens';
+
+interface AnswerEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder: string;
+  maxLength: number;
+}
+
+// Grows with its content up to this height, then scrolls.
+const MAX_HEIGHT = 240;
+
+const AnswerEditor: React.FC<AnswerEditorProps> = ({ value, onChange, onSubmit, placeholder, maxLength }) => {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isOverLimit = value.length > maxLength;
+  // An empty answer (e.g. just submitted) has nothing to preview.
+  const showPreview = isPreviewing && !!value;
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_HEIGHT)}px`;
+  }, [value, showPreview]);
+
+  // Enter submits and Shift+Enter adds a line; Enter while an IME is composing belongs to the IME.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="flex-grow min-w-0">
+      {showPreview ? (
+        <MarkdownPreview
+          source={value}
+          className="min-h-[60px] max-h-[240px] overflow-y-auto px-6 py-[15px] text-[19px] leading-[30px]"
+        />
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          rows={1}
+          className="block w-full resize-none bg-white px-6 py-[15px] text-[19px] leading-[30px] font-normal outline-none placeholder-[#8E8E93]"
+        />
+      )}
+      {value && (
+        <div className="flex items-center justify-between gap-2 px-6 text-xs text-muted-foreground">
+          <span className={isOverLimit ? 'text-destructive' : undefined}>
+            {value.length.toLocaleString()} / {maxLength.toLocaleString()} characters · ~{estimateTokens(value).toLocaleString()} tokens
+          </span>
+          <div className="flex items-center gap-2">
+            <span className="hidden sm:inline">Shift+Enter for a new line · Markdown supported</span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsPreviewing(!showPreview)}>
+              {showPreview ? 'Edit' : 'Preview'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerEditor;
@@ -0,0 +1,166 @@
+'use client'
+
+import React, { useRef, useState } from 'react';
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import type { AttachmentInput } from '@/lib/api/attachments';
+import { ATTACHMENT_KINDS, ATTACHMENT_LIMITS, IMAGE_TYPES, type Attachment } from '@/lib/attachments';
+
+interface AttachmentsPanelProps {
+  attachments: Attachment[];
+  // Names of files still being summarized.
+  pending: string[];
+  onAttach: (attachment: AttachmentInput) => void;
+  onAddLink: (url: string, note: string) => void;
+  onRemove: (id: string) => void;
+  onReject: (name: string, reason: string) => void;
+}
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.markdown', '.csv', '.json', '.html', '.xml', '.yaml', '.yml'];
+
+function isTextFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+function isLink(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol) && value.length <= ATTACHMENT_LIMITS.name;
+  } catch {
+    return false;
+  }
+}
+
+function readBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Throws with a message for the user when the file can't be attached.
+async function readAttachment(file: File): Promise<AttachmentInput> {
+  const name = file.name.slice(0, ATTACHMENT_LIMITS.name);
+  if (IMAGE_TYPES.includes(file.type)) {
+    if (file.size > ATTACHMENT_LIMITS.imageBytes) {
+      throw new Error(`Images can be at most ${ATTACHMENT_LIMITS.imageBytes / 1024 / 1024} MB.`);
+    }
+    return { kind: 'image', name, mediaType: file.type, data: await readBase64(file) };
+  }
+  if (isTextFile(file)) {
+    const text = await file.text();
+    if (!text.trim()) throw new Error('The file is empty.');
+    if (text.length > ATTACHMENT_LIMITS.textChars) {
+      throw new Error(`Text files can be at most ${ATTACHMENT_LIMITS.textChars.toLocaleString()} characters.`);
+    }
+    return { kind: 'text', name, text };
+  }
+  throw new Error('Only images (PNG, JPEG, GIF, WebP) and text files can be attached.');
+}
+
+const AttachmentsPanel: React.FC<AttachmentsPanelProps> = ({
+  attachments,
+  pending,
+  onAttach,
+  onAddLink,
+  onRemove,
+  onReject,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState('');
+  const [note, setNote] = useState('');
+  const isFull = attachments.length + pending.length >= ATTACHMENT_LIMITS.perSession;
+
+  const handleFiles = (files: FileList | null) => {
+    const room = ATTACHMENT_LIMITS.perSession - attachments.length - pending.length;
+    Array.from(files ?? []).forEach(async (file, index) => {
+      if (index >= room) {
+        onReject(file.name, `A session can have at most ${ATTACHMENT_LIMITS.perSession} references.`);
+        return;
+      }
+      try {
+        onAttach(await readAttachment(file));
+      } catch (error) {
+        onReject(file.name, error instanceof Error ? error.message : "The file couldn't be read.");
+      }
+    });
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const addLink = () => {
+    if (!isLink(url.trim())) {
+      onReject(url, `Enter a full http(s) address of at most ${ATTACHMENT_LIMITS.name} characters.`);
+      return;
+    }
+    onAddLink(url.trim(), note.trim().slice(0, ATTACHMENT_LIMITS.summary));
+    setUrl('');
+    setNote('');
+  };
+
+  return (
+    <Card className="w-96 max-w-[calc(100vw-32px)] max-h-[calc(100vh-120px)] overflow-y-auto">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">References</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-muted-foreground">
+          Screenshots, design exports and text files are summarized once and used as context for the questions and
+          the final prompt. Links are listed as given; the pages are not fetched.
+        </p>
+        {(attachments.length > 0 || pending.length > 0) && (
+          <ul className="space-y-2">
+            {attachments.map(attachment => (
+              <li key={attachment.id} className="rounded-md border p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">{attachment.name}</div>
+                    <div className="text-xs text-muted-foreground">{ATTACHMENT_KINDS[attachment.kind]}</div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => onRemove(attachment.id)}>
+                    Remove
+                  </Button>
+                </div>
+                <p className="mt-1 text-muted-foreground">{attachment.summary}</p>
+              </li>
+            ))}
+            {pending.map((name, index) => (
+              <li key={`${name}-${index}`} className="rounded-md border border-dashed p-3 text-muted-foreground">
+                {name} · Summarizing…
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={[...IMAGE_TYPES, 'text/*', ...TEXT_EXTENSIONS].join(',')}
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button variant="outline" size="sm" className="w-full" disabled={isFull} onClick={() => fileInputRef.current?.click()}>
+            Attach images or text files
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com" disabled={isFull} />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What should we take from it? (optional)"
+            disabled={isFull}
+          />
+          <Button variant="outline" size="sm" className="w-full" disabled={isFull || !url.trim()} onClick={addLink}>
+            Add link
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttachmentsPanel;
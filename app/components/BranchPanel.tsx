@@ -0,0 +1,97 @@
+'use client'
+
+import React, { useState } from 'react';
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import type { Branch, Session } from '@/lib/session';
+import type { Turn } from '@/lib/transcript';
+
+interface BranchPanelProps {
+  session: Session;
+  onSwitch: (branchId: string) => void;
+  onDelete: (branchId: string) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const TurnList: React.FC<{ title: string; turns: Turn[]; offset: number; nextQuestion: string }> = ({
+  title,
+  turns,
+  offset,
+  nextQuestion,
+}) => (
+  <div className="min-w-0 flex-1">
+    <div className="mb-2 text-xs font-semibold uppercase text-muted-foreground">{title}</div>
+    <ol className="space-y-2 text-sm">
+      {turns.map((turn, index) => (
+        <li key={index}>
+          <div className="font-medium">Q{offset + index + 1}: {turn.question}</div>
+          <div className="text-muted-foreground">{turn.answer}</div>
+        </li>
+      ))}
+      <li className="italic text-muted-foreground">Next: {nextQuestion}</li>
+    </ol>
+  </div>
+);
+
+const BranchPanel: React.FC<BranchPanelProps> = ({ session, onSwitch, onDelete }) => {
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const comparing = session.branches.find(branch => branch.id === comparingId);
+
+  const renderComparison = (branch: Branch) => (
+    <div className="mt-3 flex gap-4 border-t pt-3">
+      <TurnList
+        title="Current version"
+        turns={session.turns.slice(branch.forkIndex)}
+        offset={branch.forkIndex}
+        nextQuestion={session.currentQuestion}
+      />
+      <TurnList
+        title="This version"
+        turns={branch.turns.slice(branch.forkIndex)}
+        offset={branch.forkIndex}
+        nextQuestion={branch.currentQuestion}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="w-[560px] max-w-[calc(100vw-32px)] max-h-[calc(100vh-120px)] overflow-y-auto">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Earlier versions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {[...session.branches].reverse().map(branch => (
+            <li key={branch.id} className="rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {formatTime(branch.createdAt)} · {branch.turns.length} answers · differs from Q{branch.forkIndex + 1}
+                </span>
+                <div className="flex flex-shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setComparingId(comparingId === branch.id ? null : branch.id)}
+                  >
+                    {comparingId === branch.id ? 'Hide' : 'Compare'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onSwitch(branch.id)}>
+                    Switch
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-destructive" onClick={() => onDelete(branch.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              {comparing?.id === branch.id && renderComparison(branch)}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BranchPanel;
@@ -0,0 +1,95 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useToast } from "./ui/use-toast";
+import { describeError, readApiError } from '@/lib/api/client';
+import { SHARE_LIMITS } from '@/lib/sharing/types';
+
+interface CommentFormProps {
+  shareId: string;
+  turn: number;
+}
+
+const AUTHOR_KEY = 'webapp-prompt-builder.comment-author';
+
+const CommentForm: React.FC<CommentFormProps> = ({ shareId, turn }) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    setAuthor(window.localStorage.getItem(AUTHOR_KEY) ?? '');
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!author.trim() || !body.trim()) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/share/${shareId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ turn, author, body }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+      window.localStorage.setItem(AUTHOR_KEY, author.trim());
+      setBody('');
+      setIsOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      const { title, description } = describeError(error);
+      toast({ title, description });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setIsOpen(true)}>
+        Add comment
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <Input
+        value={author}
+        onChange={e => setAuthor(e.target.value)}
+        placeholder="Your name"
+        maxLength={SHARE_LIMITS.author}
+        className="h-8 max-w-xs"
+      />
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        placeholder="What should change about this answer?"
+        maxLength={SHARE_LIMITS.comment}
+        rows={3}
+        autoFocus
+        className="w-full resize-y rounded-md border p-3 text-sm outline-none focus:ring-1 focus:ring-ring"
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isSending || !author.trim() || !body.trim()}>
+          {isSending ? 'Posting…' : 'Post comment'}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CommentForm;
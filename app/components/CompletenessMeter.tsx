@@ -0,0 +1,30 @@
+'use client'
+
+import React from 'react';
+import { Progress } from "./ui/progress";
+import type { Completeness } from '@/lib/completeness';
+import { TOPIC_LABELS } from '@/lib/topics';
+
+interface CompletenessMeterProps {
+  completeness: Completeness;
+}
+
+const CompletenessMeter: React.FC<CompletenessMeterProps> = ({ completeness }) => {
+  const percent = Math.round(completeness.score * 100);
+  const nextTopics = (completeness.missingRequired.length ? completeness.missingRequired : completeness.missing)
+    .map(topic => TOPIC_LABELS[topic].toLowerCase());
+
+  return (
+    <div className="w-full max-w-[480px] flex flex-col gap-2">
+      <Progress value={percent} className="h-2" aria-label="Interview completeness" />
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>{completeness.isReady ? 'Ready to generate' : `${percent}% complete`}</span>
+        {nextTopics.length > 0 && (
+          <span className="truncate pl-4">Still open: {nextTopics.join(', ')}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompletenessMeter;
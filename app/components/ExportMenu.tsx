@@ -0,0 +1,159 @@
+'use client'
+
+import React, { useRef } from 'react';
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useToast } from "./ui/use-toast";
+import {
+  EXPORT_FORMATS,
+  ExportFormatError,
+  exportFileName,
+  exportSession,
+  parseSessionExport,
+  type ExportFormat,
+} from '@/lib/export';
+import type { Session } from '@/lib/session';
+import { getTemplate, renderTemplate, TEMPLATES } from '@/lib/templates';
+
+interface ExportMenuProps {
+  session: Session;
+  onImport: (session: Session) => void;
+  onTemplateChange: (templateId: string) => void;
+}
+
+const downloadFile = (name: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session, onImport, onTemplateChange }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasAnswers = session.turns.length > 0;
+  const template = getTemplate(session.templateId);
+
+  const copyPrompt = async () => {
+    try {
+      await navigator.clipboard.writeText(renderTemplate(template, session));
+      toast({ title: "Prompt copied", description: `Rendered with the ${template.name} template.` });
+    } catch (error) {
+      console.error('Error copying prompt:', error);
+      toast({ title: "Couldn't copy", description: "Your browser blocked clipboard access. Try downloading instead." });
+    }
+  };
+
+  const downloadPrompt = () => {
+    const name = exportFileName(session, 'markdown').replace(/\.md$/, `-${template.id}-prompt.md`);
+    downloadFile(name, renderTemplate(template, session), EXPORT_FORMATS.markdown.mimeType);
+    toast({ title: "Prompt downloaded", description: `Saved as ${name}.` });
+  };
+
+  const copy = async (format: ExportFormat) => {
+    const { label } = EXPORT_FORMATS[format];
+    try {
+      await navigator.clipboard.writeText(exportSession(session, format));
+      toast({ title: `${label} copied`, description: `"${session.title}" is on your clipboard.` });
+    } catch (error) {
+      console.error('Error copying export:', error);
+      toast({ title: "Couldn't copy", description: "Your browser blocked clipboard access. Try downloading instead." });
+    }
+  };
+
+  const download = (format: ExportFormat) => {
+    const { label, mimeType } = EXPORT_FORMATS[format];
+    const name = exportFileName(session, format);
+    downloadFile(name, exportSession(session, format), mimeType);
+    toast({ title: `${label} downloaded`, description: `Saved as ${name}.` });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseSessionExport(await file.text());
+      onImport(imported);
+      toast({ title: "Session imported", description: `"${imported.title}" is ready to continue.` });
+    } catch (error) {
+      console.error('Error importing session:', error);
+      toast({
+        title: "Couldn't import that file",
+        description: error instanceof ExportFormatError ? error.message : 'The file could not be read.',
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="rounded-full bg-white">
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Prompt template</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={template.id} onValueChange={onTemplateChange}>
+            {TEMPLATES.map(option => (
+              <DropdownMenuRadioItem
+                key={option.id}
+                value={option.id}
+                onSelect={e => e.preventDefault()}
+              >
+                <div className="flex flex-col">
+                  <span>{option.name}</span>
+                  <span className="text-xs text-muted-foreground whitespace-normal">{option.description}</span>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuItem disabled={!hasAnswers} onSelect={copyPrompt}>
+            Copy prompt
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!hasAnswers} onSelect={downloadPrompt}>
+            Download prompt .md
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <React.Fragment key={format}>
+              <DropdownMenuLabel>{EXPORT_FORMATS[format].label}</DropdownMenuLabel>
+              <DropdownMenuItem disabled={!hasAnswers} onSelect={() => copy(format)}>
+                Copy to clipboard
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!hasAnswers} onSelect={() => download(format)}>
+                Download .{EXPORT_FORMATS[format].extension}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </React.Fragment>
+          ))}
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            Import JSON…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleImport}
+      />
+    </>
+  );
+};
+
+export default ExportMenu;
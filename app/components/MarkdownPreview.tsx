@@ -0,0 +1,65 @@
+'use client'
+
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownInline } from '@/lib/markdown';
+
+interface MarkdownPreviewProps {
+  source: string;
+  className?: string;
+}
+
+const HEADING_SIZES = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm'];
+
+const Inline: React.FC<{ content: MarkdownInline[] }> = ({ content }) => (
+  <>
+    {content.map((part, index) => {
+      switch (part.type) {
+        case 'strong':
+          return <strong key={index}>{part.text}</strong>;
+        case 'em':
+          return <em key={index}>{part.text}</em>;
+        case 'code':
+          return <code key={index} className="rounded bg-muted px-1 font-mono text-[0.9em]">{part.text}</code>;
+        default:
+          return <React.Fragment key={index}>{part.text}</React.Fragment>;
+      }
+    })}
+  </>
+);
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ source, className }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`space-y-2 ${className ?? ''}`}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} className={`font-semibold ${HEADING_SIZES[block.level - 1]}`}>
+                <Inline content={block.content} />
+              </p>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline content={item} /></li>
+                ))}
+              </List>
+            );
+          }
+          case 'code':
+            return (
+              <pre key={index} className="overflow-x-auto rounded bg-muted p-2 font-mono text-sm">{block.text}</pre>
+            );
+          default:
+            return <p key={index}><Inline content={block.content} /></p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownPreview;
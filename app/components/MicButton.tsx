@@ -0,0 +1,32 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+
+interface MicButtonProps {
+  listening: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const MicButton: React.FC<MicButtonProps> = ({ listening, onStart, onStop }) => (
+  <Button
+    variant={listening ? 'destructive' : 'outline'}
+    onClick={listening ? onStop : onStart}
+    aria-pressed={listening}
+    aria-label={listening ? 'Stop voice input' : 'Answer by voice'}
+    title={listening ? 'Stop voice input' : 'Answer by voice'}
+    className={`rounded-full w-[60px] h-[60px] p-0 flex items-center justify-center flex-shrink-0 ${listening ? 'animate-pulse' : ''}`}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-6 h-6">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z"
+      />
+    </svg>
+  </Button>
+);
+
+export default MicButton;
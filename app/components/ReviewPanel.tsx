@@ -0,0 +1,68 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { REVIEW_ISSUE_KINDS, type ReviewIssue, type ReviewSeverity } from '@/lib/review';
+
+interface ReviewPanelProps {
+  issues: ReviewIssue[];
+  isReviewing: boolean;
+  onRerun: () => void;
+  onAnswer: (issue: ReviewIssue) => void;
+  onDismiss: (issueId: string) => void;
+}
+
+const SEVERITY_STYLES: Record<ReviewSeverity, string> = {
+  high: 'bg-destructive text-destructive-foreground',
+  medium: 'bg-primary text-primary-foreground',
+  low: 'bg-muted text-muted-foreground',
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ issues, isReviewing, onRerun, onAnswer, onDismiss }) => (
+  <Card className="w-96 max-w-[calc(100vw-32px)] max-h-[calc(100vh-120px)] overflow-y-auto">
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+      <CardTitle className="text-base">Review · {issues.length} open</CardTitle>
+      <Button variant="ghost" size="sm" onClick={onRerun} disabled={isReviewing}>
+        {isReviewing ? 'Reviewing…' : 'Run again'}
+      </Button>
+    </CardHeader>
+    <CardContent>
+      {issues.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {isReviewing ? 'Checking your answers…' : 'No open issues. The answers look consistent.'}
+        </p>
+      ) : (
+        <ul className="space-y-3 text-sm">
+          {issues.map(issue => (
+            <li key={issue.id} className="rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${SEVERITY_STYLES[issue.severity]}`}>
+                  {issue.severity}
+                </span>
+                <span className="text-xs text-muted-foreground">{REVIEW_ISSUE_KINDS[issue.kind]}</span>
+              </div>
+              <div className="mt-2 font-medium">{issue.title}</div>
+              {issue.detail && <div className="text-muted-foreground">{issue.detail}</div>}
+              {issue.turns.length > 0 && (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  See {issue.turns.map(turn => `A${turn + 1}`).join(', ')}
+                </div>
+              )}
+              <div className="mt-2 flex justify-end gap-1">
+                <Button variant="ghost" size="sm" onClick={() => onDismiss(issue.id)}>
+                  Dismiss
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onAnswer(issue)}>
+                  Answer follow-up
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default ReviewPanel;
@@ -0,0 +1,93 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import type { Session } from '@/lib/session';
+
+interface SessionMenuProps {
+  currentId: string;
+  sessions: Session[];
+  onNew: () => void;
+  onResume: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionMenu: React.FC<SessionMenuProps> = ({
+  currentId,
+  sessions,
+  onNew,
+  onResume,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const rename = (session: Session) => {
+    const title = window.prompt('Rename session', session.title)?.trim();
+    if (title) onRename(session.id, title);
+  };
+
+  const remove = (session: Session) => {
+    if (window.confirm(`Delete "${session.title}"? This can't be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-full bg-white">
+          Sessions
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuItem onSelect={onNew}>New session</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Saved sessions</DropdownMenuLabel>
+        {sessions.length === 0 && (
+          <DropdownMenuItem disabled>No saved sessions yet</DropdownMenuItem>
+        )}
+        {sessions.map(session => (
+          <DropdownMenuSub key={session.id}>
+            <DropdownMenuSubTrigger className={session.id === currentId ? 'font-semibold' : undefined}>
+              <div className="flex min-w-0 flex-col">
+                <span className="truncate">{session.title}</span>
+                <span className="text-xs text-muted-foreground">
+                  {session.turns.length} answers · {formatDate(session.updatedAt)}
+                </span>
+              </div>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuItem onSelect={() => onResume(session.id)} disabled={session.id === currentId}>
+                Resume
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => rename(session)}>Rename</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onDuplicate(session.id)}>Duplicate</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => remove(session)} className="text-destructive">
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default SessionMenu;
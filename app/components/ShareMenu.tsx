@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useState } from 'react';
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useToast } from "./ui/use-toast";
+import { ApiRequestError, describeError, readApiError } from '@/lib/api/client';
+import { exportSession } from '@/lib/export';
+import type { Session } from '@/lib/session';
+import type { ShareLink } from '@/lib/sharing/types';
+
+interface ShareMenuProps {
+  session: Session;
+  onShareChange: (share: ShareLink | null) => void;
+}
+
+const shareUrl = (id: string) => `${window.location.origin}/share/${id}`;
+
+const request = async (path: string, init: RequestInit) => {
+  const response = await fetch(path, init);
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response;
+};
+
+const ShareMenu: React.FC<ShareMenuProps> = ({ session, onShareChange }) => {
+  const { toast } = useToast();
+  const [isBusy, setIsBusy] = useState(false);
+  const { share } = session;
+  const hasAnswers = session.turns.length > 0;
+
+  const notifyError = (error: unknown) => {
+    const { title, description } = describeError(error);
+    toast({ title, description });
+  };
+
+  const copyLink = async (id: string, title: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(id));
+      toast({ title, description: 'Anyone with the link can read the interview and leave comments.' });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      toast({ title, description: shareUrl(id) });
+    }
+  };
+
+  const publish = async () => {
+    setIsBusy(true);
+    try {
+      const response = await request('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: exportSession(session, 'json'),
+      });
+      const link: ShareLink = await response.json();
+      onShareChange({ id: link.id, ownerToken: link.ownerToken, publishedAt: link.publishedAt });
+      await copyLink(link.id, 'Link copied');
+    } catch (error) {
+      console.error('Error sharing session:', error);
+      notifyError(error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // The shared copy is a snapshot; this replaces it with the current answers.
+  const update = async (link: ShareLink) => {
+    setIsBusy(true);
+    try {
+      await request(`/api/share/${link.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'x-owner-token': link.ownerToken },
+        body: exportSession(session, 'json'),
+      });
+      toast({ title: 'Shared copy updated', description: 'Reviewers see the latest answers when they reload.' });
+    } catch (error) {
+      console.error('Error updating shared session:', error);
+      if (error instanceof ApiRequestError && error.code === 'NOT_FOUND') onShareChange(null);
+      notifyError(error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    setIsBusy(true);
+    try {
+      await request(`/api/share/${link.id}`, {
+        method: 'DELETE',
+        headers: { 'x-owner-token': link.ownerToken },
+      });
+      onShareChange(null);
+      toast({ title: 'Link revoked', description: 'The shared copy and its comments were deleted.' });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      // Already gone on the server, so there is nothing left to revoke.
+      if (error instanceof ApiRequestError && error.code === 'NOT_FOUND') {
+        onShareChange(null);
+        return;
+      }
+      notifyError(error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-full bg-white" disabled={isBusy}>
+          {share ? 'Shared' : 'Share'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        {share ? (
+          <>
+            <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+              Shared {new Date(share.publishedAt).toLocaleDateString()}
+            </DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => copyLink(share.id, 'Link copied')}>
+              Copy link
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => window.open(shareUrl(share.id), '_blank', 'noopener')}>
+              Open shared view
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={!hasAnswers} onSelect={() => update(share)}>
+              Update shared copy
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => revoke(share)} className="text-destructive">
+              Revoke link
+            </DropdownMenuItem>
+          </>
+        ) : (
+          <DropdownMenuItem disabled={!hasAnswers} onSelect={publish}>
+            Create read-only link
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ShareMenu;
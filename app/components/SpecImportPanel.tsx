@@ -0,0 +1,49 @@
+'use client'
+
+import React, { useState } from 'react';
+import { Button } from "./ui/button";
+import { estimateTokens } from '@/lib/tokens';
+
+interface SpecImportPanelProps {
+  isImporting: boolean;
+  maxLength: number;
+  onImport: (document: string) => void;
+  onCancel: () => void;
+}
+
+const SpecImportPanel: React.FC<SpecImportPanelProps> = ({ isImporting, maxLength, onImport, onCancel }) => {
+  const [document, setDocument] = useState('');
+  const isOverLimit = document.length > maxLength;
+
+  return (
+    <div className="space-y-2 p-3">
+      <p className="text-sm text-muted-foreground">
+        Paste an existing spec, PRD or notes. It is summarized into the spec, and the interview continues with
+        whatever it leaves open.
+      </p>
+      <textarea
+        value={document}
+        onChange={(e) => setDocument(e.target.value)}
+        placeholder="Paste your document here..."
+        disabled={isImporting}
+        autoFocus
+        className="h-64 w-full resize-y rounded-md border p-3 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className={`text-xs ${isOverLimit ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {document.length.toLocaleString()} / {maxLength.toLocaleString()} characters · ~{estimateTokens(document).toLocaleString()} tokens
+        </span>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onImport(document)} disabled={isImporting || !document.trim() || isOverLimit}>
+            {isImporting ? 'Importing…' : 'Import spec'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecImportPanel;
@@ -0,0 +1,49 @@
+'use client'
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { isFieldFilled, SPEC_FIELDS, type AppSpec } from '@/lib/spec';
+
+interface SpecPanelProps {
+  spec: AppSpec;
+}
+
+const formatValue = (value: AppSpec[keyof AppSpec]) =>
+  Array.isArray(value) ? value.join(', ') : value;
+
+const SpecPanel: React.FC<SpecPanelProps> = ({ spec }) => {
+  const filled = SPEC_FIELDS.filter(({ field }) => isFieldFilled(spec, field)).length;
+
+  return (
+    <Card className="w-80 max-h-[calc(100vh-120px)] overflow-y-auto">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">
+          App spec · {filled}/{SPEC_FIELDS.length} filled
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3 text-sm">
+          {SPEC_FIELDS.map(({ field, label, description }) => {
+            const isFilled = isFieldFilled(spec, field);
+            return (
+              <li key={field} className="flex gap-2">
+                <span
+                  className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${isFilled ? 'bg-primary' : 'bg-muted-foreground/30'}`}
+                  aria-hidden
+                />
+                <div className="min-w-0">
+                  <div className="font-medium">{label}</div>
+                  <div className={isFilled ? 'text-foreground' : 'text-muted-foreground italic'}>
+                    {isFilled ? formatValue(spec[field]) : `Missing: ${description}`}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpecPanel;
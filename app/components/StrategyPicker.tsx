@@ -0,0 +1,39 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+import { getStrategy, INTERVIEW_STRATEGIES } from '@/lib/interviews';
+
+interface StrategyPickerProps {
+  strategyId: string;
+  onChange: (strategyId: string) => void;
+}
+
+const StrategyPicker: React.FC<StrategyPickerProps> = ({ strategyId, onChange }) => {
+  const selected = getStrategy(strategyId);
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2">
+      <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Interview style">
+        {INTERVIEW_STRATEGIES.map(strategy => (
+          <Button
+            key={strategy.id}
+            variant={strategy.id === selected.id ? 'default' : 'outline'}
+            size="sm"
+            className="rounded-full"
+            role="radio"
+            aria-checked={strategy.id === selected.id}
+            onClick={() => onChange(strategy.id)}
+          >
+            {strategy.name}
+          </Button>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {selected.description} About {selected.targetTurns} questions.
+      </p>
+    </div>
+  );
+};
+
+export default StrategyPicker;
@@ -0,0 +1,29 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+
+interface SuggestionChipsProps {
+  suggestions: string[];
+  disabled?: boolean;
+  onPick: (suggestion: string) => void;
+}
+
+const SuggestionChips: React.FC<SuggestionChipsProps> = ({ suggestions, disabled, onPick }) => (
+  <div className="flex flex-wrap justify-center gap-2" aria-label="Suggested answers">
+    {suggestions.map(suggestion => (
+      <Button
+        key={suggestion}
+        variant="outline"
+        size="sm"
+        className="rounded-full bg-white"
+        disabled={disabled}
+        onClick={() => onPick(suggestion)}
+      >
+        {suggestion}
+      </Button>
+    ))}
+  </div>
+);
+
+export default SuggestionChips;
@@ -0,0 +1,111 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { STRATEGIES, TRIGGER_LIMITS, type TriggerSettings } from '@/lib/triggers';
+
+interface TriggerSettingsPanelProps {
+  settings: TriggerSettings;
+  onChange: (patch: Partial<TriggerSettings>) => void;
+}
+
+interface NumberSettingProps {
+  id: string;
+  label: string;
+  value: number;
+  limits: { min: number; max: number; step: number };
+  disabled: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Edits a draft and commits it on blur or Enter, so a half-typed number isn't clamped mid-edit.
+const NumberSetting: React.FC<NumberSettingProps> = ({ id, label, value, limits, disabled, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    const next = draft.trim() === '' || Number.isNaN(parsed)
+      ? value
+      : Math.min(limits.max, Math.max(limits.min, Math.round(parsed)));
+    setDraft(String(next));
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <label htmlFor={id} className={disabled ? 'opacity-50' : undefined}>{label}</label>
+      <Input
+        id={id}
+        type="number"
+        {...limits}
+        value={draft}
+        disabled={disabled}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+        }}
+        className="h-8 w-24"
+      />
+    </div>
+  );
+};
+
+const TriggerSettingsPanel: React.FC<TriggerSettingsPanelProps> = ({ settings, onChange }) => {
+  const isManual = settings.enabled.manual;
+
+  return (
+    <Card className="w-80">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">When to preview the next question</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-4 text-sm">
+          {STRATEGIES.map(strategy => {
+            const id = `trigger-${strategy.id}`;
+            return (
+              <li key={strategy.id} className="flex items-start justify-between gap-4">
+                <label htmlFor={id} className={isManual && strategy.id !== 'manual' ? 'opacity-50' : undefined}>
+                  <div className="font-medium">{strategy.label}</div>
+                  <div className="text-muted-foreground">{strategy.description}</div>
+                </label>
+                <Switch
+                  id={id}
+                  checked={settings.enabled[strategy.id]}
+                  disabled={isManual && strategy.id !== 'manual'}
+                  onCheckedChange={checked => onChange({ enabled: { ...settings.enabled, [strategy.id]: checked } })}
+                />
+              </li>
+            );
+          })}
+        </ul>
+        <div className="mt-4 space-y-2 border-t pt-4 text-sm">
+          <NumberSetting
+            id="trigger-idle-ms"
+            label="Idle delay (ms)"
+            value={settings.idleMs}
+            limits={TRIGGER_LIMITS.idleMs}
+            disabled={isManual || !settings.enabled.idle}
+            onCommit={idleMs => onChange({ idleMs })}
+          />
+          <NumberSetting
+            id="trigger-min-words"
+            label="Minimum words"
+            value={settings.minWords}
+            limits={TRIGGER_LIMITS.minWords}
+            disabled={isManual || !settings.enabled.minWords}
+            onCommit={minWords => onChange({ minWords })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TriggerSettingsPanel;
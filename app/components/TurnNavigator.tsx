@@ -0,0 +1,27 @@
+'use client'
+
+import React from 'react';
+import { Button } from "./ui/button";
+
+interface TurnNavigatorProps {
+  position: number;
+  total: number;
+  onBack: () => void;
+  onForward: () => void;
+}
+
+const TurnNavigator: React.FC<TurnNavigatorProps> = ({ position, total, onBack, onForward }) => (
+  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+    <Button variant="ghost" size="sm" onClick={onBack} disabled={position === 0} aria-label="Previous question">
+      ‹ Back
+    </Button>
+    <span>
+      Question {position + 1} of {total}
+    </span>
+    <Button variant="ghost" size="sm" onClick={onForward} disabled={position === total - 1} aria-label="Next question">
+      Forward ›
+    </Button>
+  </div>
+);
+
+export default TurnNavigator;
@@ -0,0 +1,133 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useDebouncedCallback } from 'use-debounce';
+import { createSession, duplicateSession, type Session } from '@/lib/session';
+import { createLocalStorageSessionStore, type SessionStore } from '@/lib/storage/sessionStore';
+
+const SAVE_DELAY = 300;
+
+export function useSessions(createStore: () => SessionStore = createLocalStorageSessionStore) {
+  const storeRef = useRef<SessionStore | null>(null);
+  const [session, setSession] = useState<Session>(createSession);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isRestored, setIsRestored] = useState(false);
+
+  const refreshList = useCallback(async () => {
+    if (storeRef.current) {
+      setSessions(await storeRef.current.list());
+    }
+  }, []);
+
+  const persist = useDebouncedCallback(async (next: Session) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      await store.save(next);
+      await store.setActiveId(next.id);
+      await refreshList();
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  }, SAVE_DELAY);
+
+  useEffect(() => {
+    const store = createStore();
+    storeRef.current = store;
+
+    (async () => {
+      try {
+        const activeId = await store.getActiveId();
+        const saved = activeId ? await store.get(activeId) : null;
+        if (saved) setSession(saved);
+        await refreshList();
+      } catch (error) {
+        console.error('Error restoring session:', error);
+      } finally {
+        setIsRestored(true);
+      }
+    })();
+  }, [createStore, refreshList]);
+
+  useEffect(() => {
+    // Nothing worth keeping until the first answer; avoids saving an empty session on every visit.
+    if (isRestored && session.turns.length > 0) {
+      persist(session);
+    }
+  }, [isRestored, session, persist]);
+
+  useEffect(() => () => {
+    persist.flush();
+  }, [persist]);
+
+  const switchTo = useCallback(async (next: Session) => {
+    persist.flush();
+    setSession(next);
+    await storeRef.current?.setActiveId(next.id);
+  }, [persist]);
+
+  const newSession = useCallback(() => switchTo(createSession()), [switchTo]);
+
+  const resumeSession = useCallback(async (id: string) => {
+    const saved = await storeRef.current?.get(id);
+    if (saved) await switchTo(saved);
+  }, [switchTo]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    if (id === session.id) {
+      setSession(current => ({ ...current, title, updatedAt: new Date().toISOString() }));
+      return;
+    }
+
+    const store = storeRef.current;
+    const saved = await store?.get(id);
+    if (!store || !saved) return;
+
+    await store.save({ ...saved, title, updatedAt: new Date().toISOString() });
+    await refreshList();
+  }, [refreshList, session.id]);
+
+  const copySession = useCallback(async (id: string) => {
+    await persist.flush();
+    const store = storeRef.current;
+    const saved = await store?.get(id);
+    if (!store || !saved) return;
+
+    const copy = duplicateSession(saved);
+    await store.save(copy);
+    await switchTo(copy);
+    await refreshList();
+  }, [persist, refreshList, switchTo]);
+
+  const importSession = useCallback(async (imported: Session) => {
+    await storeRef.current?.save(imported);
+    await switchTo(imported);
+    await refreshList();
+  }, [refreshList, switchTo]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+
+    if (id === session.id) {
+      persist.cancel();
+      await store.delete(id);
+      await switchTo(createSession());
+    } else {
+      await store.delete(id);
+    }
+    await refreshList();
+  }, [persist, refreshList, session.id, switchTo]);
+
+  return {
+    session,
+    setSession,
+    sessions,
+    newSession,
+    resumeSession,
+    renameSession,
+    duplicateSession: copySession,
+    deleteSession,
+    importSession,
+  };
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_TRIGGER_SETTINGS, type TriggerSettings } from '@/lib/triggers';
+import { readTriggerSettings, saveTriggerSettings } from '@/lib/triggers/storage';
+
+export function useTriggerSettings() {
+  const [settings, setSettings] = useState<TriggerSettings>(DEFAULT_TRIGGER_SETTINGS);
+
+  useEffect(() => {
+    setSettings(readTriggerSettings());
+  }, []);
+
+  const updateSettings = useCallback((patch: Partial<TriggerSettings>) => {
+    setSettings(current => saveTriggerSettings(current, patch));
+  }, []);
+
+  return { settings, updateSettings };
+}
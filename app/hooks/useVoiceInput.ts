@@ -0,0 +1,55 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Transcriber, TranscriptionSession } from '@/lib/transcription';
+
+interface VoiceInputHandlers {
+  onTranscript: (text: string, final: boolean) => void;
+  onError: (error: unknown) => void;
+}
+
+export function useVoiceInput(transcriber: Transcriber, handlers: VoiceInputHandlers) {
+  // Only known after mount: the server render has no window to look at.
+  const [supported, setSupported] = useState(false);
+  const [listening, setListening] = useState(false);
+  const sessionRef = useRef<TranscriptionSession | null>(null);
+  const activeRef = useRef(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    setSupported(transcriber.isSupported());
+  }, [transcriber]);
+
+  const start = useCallback(async () => {
+    if (activeRef.current) return;
+    activeRef.current = true;
+    setListening(true);
+
+    const end = () => {
+      activeRef.current = false;
+      sessionRef.current = null;
+      setListening(false);
+    };
+    try {
+      sessionRef.current = await transcriber.start({
+        onTranscript: (text, final) => handlersRef.current.onTranscript(text, final),
+        onError: error => handlersRef.current.onError(error),
+        onEnd: end,
+      });
+    } catch (error) {
+      end();
+      handlersRef.current.onError(error);
+    }
+  }, [transcriber]);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    return () => sessionRef.current?.abort();
+  }, []);
+
+  return { supported, listening, start, stop };
+}
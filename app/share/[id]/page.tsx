@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
+import CommentForm from "../../components/CommentForm";
+import MarkdownPreview from "../../components/MarkdownPreview";
+import { formatReferences, toReferences } from "@/lib/attachments";
+import { getShareStore, type ShareComment } from "@/lib/sharing";
+
+export const dynamic = 'force-dynamic';
+
+// Links are unguessable but not secret once pasted somewhere; keep them out of search results.
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+interface SharePageProps {
+  params: { id: string };
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+
+const CommentList = ({ comments }: { comments: ShareComment[] }) => (
+  <ul className="space-y-2">
+    {comments.map(comment => (
+      <li key={comment.id} className="rounded-md border-l-2 border-primary/40 bg-muted/50 px-3 py-2 text-sm">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{comment.author}</span> · {formatDate(comment.createdAt)}
+        </p>
+        <p className="whitespace-pre-wrap">{comment.body}</p>
+      </li>
+    ))}
+  </ul>
+);
+
+export default async function SharePage({ params }: SharePageProps) {
+  const shared = await getShareStore().get(params.id);
+  if (!shared) notFound();
+
+  const { session, comments } = shared;
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">{session.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            Read-only copy, shared {formatDate(shared.publishedAt)}
+            {shared.updatedAt !== shared.publishedAt && `, updated ${formatDate(shared.updatedAt)}`}
+          </p>
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Interview</CardTitle>
+            <CardDescription>Comment on any answer to suggest changes to the owner.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {session.turns.map((turn, index) => {
+              const turnComments = comments.filter(comment => comment.turn === index);
+              return (
+                <section key={index} className="space-y-2 border-b pb-6 last:border-0 last:pb-0">
+                  <p className="font-medium">{turn.question}</p>
+                  <MarkdownPreview source={turn.answer} className="text-sm" />
+                  {turnComments.length > 0 && <CommentList comments={turnComments} />}
+                  <CommentForm shareId={shared.id} turn={index} />
+                </section>
+              );
+            })}
+          </CardContent>
+        </Card>
+        {session.attachments.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>References</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <pre className="whitespace-pre-wrap text-sm">{formatReferences(toReferences(session.attachments))}</pre>
+            </CardContent>
+          </Card>
+        )}
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary prompt</CardTitle>
+            <CardDescription>
+              {session.builtPrompt ? 'The prompt generated at the end of the interview.' : 'Rendered from the answers so far.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="whitespace-pre-wrap rounded bg-muted p-4 font-mono text-sm">{shared.summaryPrompt}</pre>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ATTACHMENT_LIMITS } from '@/lib/attachments';
+import { LLMConfigError, type CompletionRequest, type LLMProvider } from '@/lib/llm';
+import { createMockProvider } from '@/lib/llm/mock';
+import { testLLM } from '@/lib/llm/testing';
+import { chunkText, summarizeAttachment } from './attachments';
+
+// The mock provider, plus a log of the model and user message of every call.
+function recordingProvider(respondWithJSON?: (request: CompletionRequest) => string) {
+  const calls: { model: string; input: Record<string, unknown>; images: number }[] = [];
+  const mock = createMockProvider({ respondWithJSON });
+  const provider: LLMProvider = {
+    ...mock,
+    complete(request) {
+      const message = request.messages[request.messages.length - 1];
+      calls.push({ model: request.model, input: JSON.parse(message.content), images: message.images?.length ?? 0 });
+      return mock.complete(request);
+    },
+  };
+  return { provider, calls };
+}
+
+describe('chunkText', () => {
+  it('keeps paragraphs together and hard-splits ones longer than a chunk', () => {
+    expect(chunkText('one\n\ntwo\n\nthree', 8)).toEqual(['one\n\ntwo', 'three']);
+    expect(chunkText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    expect(chunkText('  \n\n  ')).toEqual([]);
+  });
+});
+
+describe('summarizeAttachment', () => {
+  it('summarizes a short text file in one call', async () => {
+    const { provider, calls } = recordingProvider();
+    const summary = await summarizeAttachment(testLLM(provider), {
+      kind: 'text',
+      name: 'notes.md',
+      text: 'A booking app for yoga studios. Customers pay online. Teachers see their classes.',
+    });
+
+    expect(summary).toBe('A booking app for yoga studios. Customers pay online.');
+    expect(calls).toHaveLength(1);
+    expect(calls[0].input).toMatchObject({ name: 'notes.md', part: 1, parts: 1 });
+  });
+
+  it('summarizes long text chunk by chunk and merges the summaries', async () => {
+    const { provider, calls } = recordingProvider();
+    const paragraph = (topic: string) => `${topic} matters. ${'More detail. '.repeat(400)}`;
+    const text = [paragraph('Booking'), paragraph('Payments')].join('\n\n');
+    const summary = await summarizeAttachment(testLLM(provider), { kind: 'text', name: 'spec.txt', text });
+
+    expect(calls.map(call => call.input.part ?? 'merge')).toEqual([1, 2, 'merge']);
+    expect(calls[2].input.summaries).toEqual(['Booking matters. More detail.', 'Payments matters. More detail.']);
+    expect(summary).toBe('Booking matters. More detail. Payments matters. More detail.');
+  });
+
+  it('sends images to the vision model', async () => {
+    const { provider, calls } = recordingProvider();
+    const summary = await summarizeAttachment(testLLM(provider, { visionModel: 'mock-vision' }), {
+      kind: 'image',
+      name: 'home.png',
+      mediaType: 'image/png',
+      data: 'A'.repeat(4096),
+    });
+
+    expect(calls).toEqual([{ model: 'mock-vision', input: { name: 'home.png' }, images: 1 }]);
+    expect(summary).toMatch(/^"home\.png": a 3 KB PNG image/);
+  });
+
+  it('refuses images when no vision model is configured', async () => {
+    const { provider, calls } = recordingProvider();
+    const image = { kind: 'image' as const, name: 'home.png', mediaType: 'image/png', data: 'AAAA' };
+
+    await expect(summarizeAttachment(testLLM(provider), image)).rejects.toBeInstanceOf(LLMConfigError);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('caps the summary length', async () => {
+    const { provider } = recordingProvider(() => JSON.stringify({ summary: 'x'.repeat(ATTACHMENT_LIMITS.summary + 10) }));
+    const summary = await summarizeAttachment(testLLM(provider), { kind: 'text', name: 'notes.md', text: 'Hello.' });
+
+    expect(summary).toHaveLength(ATTACHMENT_LIMITS.summary);
+  });
+
+  it('rejects a response without a summary', async () => {
+    const { provider } = recordingProvider(() => JSON.stringify({ summary: '' }));
+
+    await expect(summarizeAttachment(testLLM(provider), { kind: 'text', name: 'notes.md', text: 'Hello.' }))
+      .rejects.toMatchObject({ name: 'ModelOutputError' });
+  });
+});
@@ -0,0 +1,110 @@
+import { ATTACHMENT_LIMITS } from '@/lib/attachments';
+import { LLMConfigError, type ChatMessage, type ResolvedLLM } from '@/lib/llm';
+import { estimateTokens } from '@/lib/tokens';
+import { ModelOutputError, parseJSONObject } from './modelOutput';
+
+export type AttachmentInput =
+  | { kind: 'image'; name: string; mediaType: string; data: string }
+  | { kind: 'text'; name: string; text: string };
+
+// About 2k tokens per chunk, so each summary call stays well inside every allowlisted model's context.
+export const CHUNK_CHARS = 8000;
+
+const SUMMARY_MAX_TOKENS = 300;
+
+// Roughly what a screenshot costs on OpenAI and Anthropic; only used for the rate limiter's budget.
+const IMAGE_TOKENS = 1000;
+
+const IMAGE_SYSTEM_PROMPT = `The user attached an image as a reference for a web app they want built: a screenshot, mockup or design export.
+Describe what a developer should take from it: layout, key screens and components, visual style, and any visible features or text.
+Return {"summary": "..."} with at most 120 words. Respond with the JSON object only.`;
+
+const CHUNK_SYSTEM_PROMPT = `The user attached a text file as a reference for a web app they want built. You receive one part of it as JSON.
+Summarize the requirements, features, users, data and constraints it mentions.
+Return {"summary": "..."} with at most 120 words. Respond with the JSON object only.`;
+
+const COMBINE_SYSTEM_PROMPT = `You receive summaries of consecutive parts of one reference file for a web app as JSON.
+Merge them into one summary of the whole file, keeping every requirement and dropping repetition.
+Return {"summary": "..."} with at most 150 words. Respond with the JSON object only.`;
+
+// Splits on paragraph breaks where it can, and hard-splits paragraphs longer than `size`.
+export function chunkText(text: string, size = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const pieces = paragraph.length > size
+      ? Array.from({ length: Math.ceil(paragraph.length / size) }, (_, i) => paragraph.slice(i * size, (i + 1) * size))
+      : [paragraph];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+export function estimateAttachmentTokens(attachment: AttachmentInput): number {
+  return attachment.kind === 'image' ? IMAGE_TOKENS : estimateTokens(attachment.text);
+}
+
+async function summarize(
+  llm: ResolvedLLM,
+  model: string,
+  systemPrompt: string,
+  message: Omit<ChatMessage, 'role'>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const completion = await llm.provider.complete({
+    model,
+    messages: [{ role: 'system', content: systemPrompt }, { role: 'user', ...message }],
+    maxTokens: Math.min(SUMMARY_MAX_TOKENS, llm.policy.maxTokens),
+    responseFormat: 'json',
+    signal,
+  });
+
+  const { summary } = parseJSONObject(completion.content) as { summary?: unknown };
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new ModelOutputError('The model did not return a summary');
+  }
+  return summary.trim();
+}
+
+// Images go to the vision model in one call; text is summarized chunk by chunk, then merged.
+export async function summarizeAttachment(
+  llm: ResolvedLLM,
+  attachment: AttachmentInput,
+  signal?: AbortSignal,
+): Promise<string> {
+  let summary: string;
+
+  if (attachment.kind === 'image') {
+    if (!llm.visionModel) {
+      throw new LLMConfigError('No vision-capable model is configured');
+    }
+    summary = await summarize(llm, llm.visionModel, IMAGE_SYSTEM_PROMPT, {
+      content: JSON.stringify({ name: attachment.name }),
+      images: [{ mediaType: attachment.mediaType, data: attachment.data }],
+    }, signal);
+  } else {
+    const chunks = chunkText(attachment.text);
+    const summaries: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      summaries.push(await summarize(llm, llm.model, CHUNK_SYSTEM_PROMPT, {
+        content: JSON.stringify({ name: attachment.name, part: i + 1, parts: chunks.length, text: chunks[i] }),
+      }, signal));
+    }
+    summary = summaries.length === 1
+      ? summaries[0]
+      : await summarize(llm, llm.model, COMBINE_SYSTEM_PROMPT, {
+        content: JSON.stringify({ name: attachment.name, summaries }),
+      }, signal);
+  }
+
+  // Summaries travel with every later request, which validates them against this limit.
+  return summary.slice(0, ATTACHMENT_LIMITS.summary);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { readTextWithin } from './body';
+
+// A chunked upload: no Content-Length, just a stream of parts.
+function streamed(parts: string[]) {
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === parts.length) return controller.close();
+      controller.enqueue(new TextEncoder().encode(parts[pulled++]));
+    },
+  });
+  const request = new Request('http://localhost/api/share', { method: 'POST', body, duplex: 'half' } as RequestInit);
+  return { request, pulled: () => pulled };
+}
+
+describe('readTextWithin', () => {
+  it('returns the body when it fits', async () => {
+    const { request } = streamed(['{"a":', '1}']);
+
+    expect(await readTextWithin(request, 100)).toBe('{"a":1}');
+  });
+
+  it('stops reading a chunked body as soon as it passes the cap', async () => {
+    const { request, pulled } = streamed(['x'.repeat(60), 'x'.repeat(60), 'x'.repeat(60)]);
+
+    expect(await readTextWithin(request, 100)).toBeNull();
+    expect(pulled()).toBeLessThan(3);
+  });
+
+  it('rejects a declared Content-Length over the cap without reading', async () => {
+    const request = new Request('http://localhost/api/share', {
+      method: 'POST',
+      body: 'small',
+      headers: { 'content-length': '5000' },
+    });
+
+    expect(await readTextWithin(request, 100)).toBeNull();
+    expect(request.bodyUsed).toBe(false);
+  });
+});
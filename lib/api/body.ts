@@ -0,0 +1,23 @@
+// Request body helpers for routes that cap what they accept; server-only.
+
+// Reads the body as text but stops once it passes `maxBytes`, so neither a large Content-Length nor a chunked
+// upload without one is ever buffered in full. Returns null when the body is too large.
+export async function readTextWithin(request: Request, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { apiRequestError } from './client';
+import { isApiErrorCode } from './errors';
+
+describe('apiRequestError', () => {
+  it('reads the code, message and retry hint from an error body', () => {
+    const error = apiRequestError({ error: { code: 'RATE_LIMITED', message: 'Too many requests' } }, 429, '30');
+
+    expect(error).toMatchObject({ status: 429, code: 'RATE_LIMITED', retryable: true, retryAfter: 30 });
+  });
+
+  it('treats codes it does not know, including inherited property names, as unknown', () => {
+    expect(isApiErrorCode('toString')).toBe(false);
+    expect(apiRequestError({ error: { code: 'constructor', message: 'Bogus' } }, 500))
+      .toMatchObject({ status: 500, code: null, retryable: true });
+  });
+});
@@ -0,0 +1,93 @@
+import { API_ERRORS, isApiErrorCode, type ApiErrorBody, type ApiErrorCode } from './errors';
+
+// Thrown on the client when /api/openai answers with an error body, or can't be reached at all (`code` null).
+export class ApiRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode | null,
+    message: string,
+    readonly retryable: boolean,
+    readonly retryAfter: number | null = null,
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export function apiRequestError(body: unknown, status?: number, retryAfterHeader?: string | null): ApiRequestError {
+  const error = (body as Partial<ApiErrorBody> | null)?.error;
+  if (!error || !isApiErrorCode(error.code)) {
+    const fallbackStatus = status ?? 502;
+    return new ApiRequestError(fallbackStatus, null, `API error (${fallbackStatus})`, fallbackStatus >= 500);
+  }
+
+  const header = Number(retryAfterHeader);
+  return new ApiRequestError(
+    status ?? API_ERRORS[error.code].status,
+    error.code,
+    error.message,
+    error.retryable ?? API_ERRORS[error.code].retryable,
+    error.retryAfter ?? (retryAfterHeader && Number.isFinite(header) ? header : null),
+  );
+}
+
+export async function readApiError(response: Response): Promise<ApiRequestError> {
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Not one of ours (e.g. a proxy error page).
+  }
+  return apiRequestError(body, response.status, response.headers.get('Retry-After'));
+}
+
+export function formatRetryAfter(seconds: number | null): string {
+  if (!seconds) return 'in a moment';
+  if (seconds < 60) return `in ${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export interface ErrorMessage {
+  title: string;
+  description: string;
+  retryable: boolean;
+}
+
+const ERROR_MESSAGES: Record<ApiErrorCode, { title: string; description: string }> = {
+  INVALID_REQUEST: {
+    title: "That request didn't go through",
+    description: 'Something in the interview data was rejected. Try shortening your answer.',
+  },
+  CONFIG_MISSING: {
+    title: 'The model backend is not set up',
+    description: 'Ask whoever runs this app to configure a model provider.',
+  },
+  NOT_FOUND: { title: 'Not found', description: 'It may have been deleted, or the link was revoked.' },
+  FORBIDDEN: { title: 'Not allowed', description: 'Only the owner can do that.' },
+  RATE_LIMITED: { title: 'Slow down a little', description: 'Too many requests right now.' },
+  QUOTA_EXCEEDED: { title: 'Usage limit reached', description: 'No more model usage is available for now.' },
+  UPSTREAM_RATE_LIMITED: { title: 'The model is busy', description: 'The model backend is handling too many requests.' },
+  UPSTREAM_TIMEOUT: { title: 'The model took too long', description: 'It may be under heavy load.' },
+  CONTENT_FILTERED: {
+    title: 'Response blocked',
+    description: "The model's content filter stopped the reply. Try rephrasing your answer.",
+  },
+  UPSTREAM_ERROR: { title: 'The model backend failed', description: 'It returned an unexpected error.' },
+};
+
+// Maps any failure from callOpenAI/streamOpenAI to what the user should see.
+export function describeError(error: unknown): ErrorMessage {
+  if (!(error instanceof ApiRequestError)) {
+    return { title: "Can't reach the server", description: 'Check your connection.', retryable: true };
+  }
+  if (!error.code) {
+    return { title: 'Something went wrong', description: error.message, retryable: error.retryable };
+  }
+
+  const { title, description } = ERROR_MESSAGES[error.code];
+  const when = error.retryAfter ? ` Try again ${formatRetryAfter(error.retryAfter)}.` : '';
+  return { title, description: `${description}${when}`, retryable: error.retryable };
+}
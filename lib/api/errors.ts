@@ -0,0 +1,62 @@
+// Shared by the route and the client; keep it free of server-only imports.
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'CONFIG_MISSING'
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'CONTENT_FILTERED'
+  | 'UPSTREAM_ERROR';
+
+// `retryable` means sending the same request again later can succeed.
+export const API_ERRORS: Record<ApiErrorCode, { status: number; retryable: boolean }> = {
+  INVALID_REQUEST: { status: 400, retryable: false },
+  CONFIG_MISSING: { status: 500, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false },
+  FORBIDDEN: { status: 403, retryable: false },
+  RATE_LIMITED: { status: 429, retryable: true },
+  QUOTA_EXCEEDED: { status: 429, retryable: false },
+  UPSTREAM_RATE_LIMITED: { status: 503, retryable: true },
+  UPSTREAM_TIMEOUT: { status: 504, retryable: true },
+  CONTENT_FILTERED: { status: 422, retryable: false },
+  UPSTREAM_ERROR: { status: 502, retryable: true },
+};
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && Object.hasOwn(API_ERRORS, value);
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    retryable: boolean;
+    issues?: ValidationIssue[];
+    // Seconds until the client may try again; mirrors the Retry-After header.
+    retryAfter?: number;
+  };
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  { issues, retryAfter }: { issues?: ValidationIssue[]; retryAfter?: number } = {},
+): ApiErrorBody {
+  return {
+    error: {
+      code,
+      message,
+      retryable: API_ERRORS[code].retryable,
+      ...(issues?.length ? { issues } : {}),
+      ...(retryAfter !== undefined ? { retryAfter } : {}),
+    },
+  };
+}
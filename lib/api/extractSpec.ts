@@ -0,0 +1,46 @@
+import type { ResolvedLLM } from '@/lib/llm';
+import { parseAppSpec, SPEC_FIELDS, type AppSpec } from '@/lib/spec';
+import { ModelOutputError, parseJSONObject } from './modelOutput';
+
+const EXTRACT_SPEC_MAX_TOKENS = 600;
+
+const EXTRACT_SPEC_SYSTEM_PROMPT = `You maintain a structured specification of a web app that is being designed through an interview.
+You receive the current spec, the latest question and the user's answer as JSON.
+Return the complete updated spec as a JSON object with exactly these keys:
+${SPEC_FIELDS.map(({ field, description }) => `- ${field}: ${description}`).join('\n')}
+appType and authNeeds are strings or null; every other key is an array of short strings.
+Keep existing values unless the answer changes them, and only add facts the user actually stated.
+Respond with the JSON object only.`;
+
+// A spec update the model returned that doesn't match the spec shape.
+export class SpecExtractionError extends ModelOutputError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpecExtractionError';
+  }
+}
+
+export async function extractSpec(
+  llm: ResolvedLLM,
+  currentSpec: AppSpec,
+  question: string,
+  answer: string,
+  signal?: AbortSignal,
+): Promise<AppSpec> {
+  const completion = await llm.provider.complete({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: EXTRACT_SPEC_SYSTEM_PROMPT },
+      { role: 'user', content: JSON.stringify({ currentSpec, question, answer }) },
+    ],
+    maxTokens: Math.min(EXTRACT_SPEC_MAX_TOKENS, llm.policy.maxTokens),
+    responseFormat: 'json',
+    signal,
+  });
+
+  const parsed = parseAppSpec(parseJSONObject(completion.content));
+  if (!parsed.success) {
+    throw new SpecExtractionError(`The model returned an invalid spec: ${parsed.issues.map(i => i.path).join(', ')}`);
+  }
+  return parsed.data;
+}
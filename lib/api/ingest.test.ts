@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from '@/lib/llm/mock';
+import { testLLM } from '@/lib/llm/testing';
+import { createEmptySpec } from '@/lib/spec';
+import { ingestDocument } from './ingest';
+import { LIMITS } from './schema';
+
+const DOCUMENT = ['# Yoga booking', '- Customers book classes online', '- Sign in with Google'].join('\n');
+
+describe('ingestDocument', () => {
+  it('returns the summary and the spec the model built from the document', async () => {
+    const result = await ingestDocument(testLLM(), DOCUMENT, createEmptySpec());
+
+    expect(result.summary).toBe('Yoga booking. Customers book classes online. Sign in with Google.');
+    expect(result.spec).toMatchObject({
+      appType: 'Yoga booking',
+      targetUsers: ['Customers book classes online'],
+      authNeeds: 'Sign in with Google',
+    });
+  });
+
+  it('keeps what the current spec already has', async () => {
+    const current = { ...createEmptySpec(), appType: 'Studio manager', integrations: ['Stripe'] };
+    const result = await ingestDocument(testLLM(), DOCUMENT, current);
+
+    expect(result.spec.appType).toBe('Studio manager');
+    expect(result.spec.integrations).toEqual(['Stripe']);
+  });
+
+  it('caps the summary at the answer limit', async () => {
+    const long = JSON.stringify({ summary: 'x'.repeat(LIMITS.answer + 10), spec: createEmptySpec() });
+    const result = await ingestDocument(testLLM(createMockProvider({ respondWithJSON: () => long })), DOCUMENT, undefined);
+
+    expect(result.summary).toHaveLength(LIMITS.answer);
+  });
+
+  it.each([
+    ['is not JSON', 'Sorry, I cannot help with that.'],
+    ['has an invalid spec', JSON.stringify({ summary: 'A booking app', spec: { appType: 42 } })],
+    ['has no summary', JSON.stringify({ summary: ' ', spec: createEmptySpec() })],
+  ])('rejects a response that %s', async (_, response) => {
+    const provider = createMockProvider({ respondWithJSON: () => response });
+
+    await expect(ingestDocument(testLLM(provider), DOCUMENT, undefined)).rejects.toMatchObject({ name: 'ModelOutputError' });
+  });
+});
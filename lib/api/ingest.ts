@@ -0,0 +1,50 @@
+import type { ResolvedLLM } from '@/lib/llm';
+import { parseAppSpec, SPEC_FIELDS, type AppSpec } from '@/lib/spec';
+import { ModelOutputError, parseJSONObject } from './modelOutput';
+import { LIMITS } from './schema';
+
+const INGEST_MAX_TOKENS = 1000;
+
+const INGEST_SYSTEM_PROMPT = `You turn an existing requirements document for a web app into the structured spec an interview will continue from.
+You receive the current spec and the document as JSON. Return {"summary": ..., "spec": ...} where:
+- summary is a plain-language summary of the document in at most 150 words
+- spec is the complete updated spec with exactly these keys:
+${SPEC_FIELDS.map(({ field, description }) => `  - ${field}: ${description}`).join('\n')}
+  appType and authNeeds are strings or null; every other key is an array of short strings.
+Keep existing spec values unless the document changes them, and only add facts the document actually states.
+Leave a key empty rather than guessing, so the interview can ask about it. Respond with the JSON object only.`;
+
+export interface IngestResult {
+  summary: string;
+  spec: AppSpec;
+}
+
+export async function ingestDocument(
+  llm: ResolvedLLM,
+  document: string,
+  currentSpec: AppSpec | undefined,
+  signal?: AbortSignal,
+): Promise<IngestResult> {
+  const completion = await llm.provider.complete({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: INGEST_SYSTEM_PROMPT },
+      { role: 'user', content: JSON.stringify({ currentSpec, document }) },
+    ],
+    maxTokens: Math.min(INGEST_MAX_TOKENS, llm.policy.maxTokens),
+    responseFormat: 'json',
+    signal,
+  });
+
+  const result = parseJSONObject(completion.content) as { summary?: unknown; spec?: unknown };
+  const parsed = parseAppSpec(result.spec);
+  if (!parsed.success) {
+    throw new ModelOutputError(`The model returned an invalid spec: ${parsed.issues.map(i => i.path).join(', ')}`);
+  }
+  if (typeof result.summary !== 'string' || !result.summary.trim()) {
+    throw new ModelOutputError('The model did not summarize the document');
+  }
+
+  // The summary becomes an answer in the transcript, which later requests validate against this limit.
+  return { summary: result.summary.trim().slice(0, LIMITS.answer), spec: parsed.data };
+}
@@ -0,0 +1,89 @@
+import { isAbortError } from '@/lib/abort';
+import type { ResolvedLLM, TokenUsage } from '@/lib/llm';
+import {
+  estimateCost,
+  getTelemetrySink,
+  readPriceTable,
+  withTracking,
+  type TelemetrySink,
+  type UsageRecord,
+} from '@/lib/telemetry';
+import { getResponseCache, withResponseCache, type CacheStatus } from './responseCache';
+import { upstreamError } from './responses';
+
+interface InstrumentOptions {
+  route: UsageRecord['route'];
+  task: string;
+  sessionId: string | null;
+  useCache: boolean;
+}
+
+// Wraps the provider for one kind of call: response cache inside, usage tracking outside,
+// so cache hits are recorded too. `cacheStatus` reports the most recent call; `tokens` totals the uncached ones.
+export function instrument(llm: ResolvedLLM, { route, task, sessionId, useCache }: InstrumentOptions) {
+  const cache = getResponseCache();
+  const cached = useCache && cache.enabled;
+  let status: CacheStatus = cached ? 'miss' : 'bypass';
+
+  const provider = cached
+    ? withResponseCache(llm.provider, cache, hit => { status = hit ? 'hit' : 'miss'; })
+    : llm.provider;
+
+  let tokens = 0;
+  const sink = getTelemetrySink();
+  const counting: TelemetrySink = {
+    write(record) {
+      if (record.cache !== 'hit') tokens += record.promptTokens + record.completionTokens;
+      return sink.write(record);
+    },
+    read: since => sink.read(since),
+  };
+
+  return {
+    llm: {
+      ...llm,
+      provider: withTracking(provider, {
+        sink: counting,
+        prices: readPriceTable(),
+        route,
+        task,
+        sessionId,
+        cacheStatus: () => status,
+        classifyError: error => upstreamError(error).error.code,
+      }),
+    },
+    cacheStatus: () => status,
+    tokens: () => tokens,
+  };
+}
+
+interface CallRecord {
+  route: UsageRecord['route'];
+  task: string;
+  sessionId: string | null;
+  provider: string;
+  model: string;
+  startedAt: number;
+  // Estimated; calls recorded this way don't get token counts back from the service.
+  usage: TokenUsage;
+  error?: unknown;
+}
+
+// For model calls that don't go through an LLMProvider, such as transcription.
+export function trackCall({ route, task, sessionId, provider, model, startedAt, usage, error }: CallRecord) {
+  const record: UsageRecord = {
+    timestamp: new Date(startedAt).toISOString(),
+    route,
+    task,
+    sessionId,
+    provider,
+    model,
+    ...usage,
+    estimated: true,
+    costUsd: estimateCost(readPriceTable(), model, usage),
+    latencyMs: Date.now() - startedAt,
+    cache: 'bypass',
+    errorCode: error === undefined ? null : isAbortError(error) ? 'ABORTED' : upstreamError(error).error.code,
+  };
+  getTelemetrySink().write(record).catch(sinkError => console.error('Error writing usage record:', sinkError));
+}
@@ -0,0 +1,22 @@
+// Thrown when a model answers, but not in the shape the caller asked for.
+export class ModelOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelOutputError';
+  }
+}
+
+// Models sometimes wrap JSON in prose or code fences; the outermost braces are taken as the object.
+export function parseJSONObject(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new ModelOutputError('The model did not return a JSON object');
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new ModelOutputError('The model returned malformed JSON');
+  }
+}
@@ -0,0 +1,57 @@
+// The checks every model-backed route runs before doing any work; server-only.
+import { getProvider, LLMConfigError, type ResolvedLLM } from '@/lib/llm';
+import { apiError } from './errors';
+import { clientKeys, getRateLimiter } from './rateLimit';
+import { errorResponse, rateLimitedResponse } from './responses';
+import type { ParseResult } from './schema';
+
+export interface ModelRequest<T> {
+  llm: ResolvedLLM;
+  data: T;
+  // Charges `tokens` to the client's daily budget; failures are logged, never thrown.
+  recordUsage: (tokens: number) => void;
+}
+
+// Resolves the provider, applies the rate limit, then parses and validates the JSON body, in that order.
+// Returns the error response to send when any step fails.
+export async function readModelRequest<T>(
+  request: Request,
+  parse: (body: unknown) => ParseResult<T>,
+): Promise<ModelRequest<T> | Response> {
+  let llm: ResolvedLLM;
+  try {
+    llm = getProvider();
+  } catch (error) {
+    if (error instanceof LLMConfigError) {
+      console.error('LLM configuration error:', error.message);
+      return errorResponse(apiError('CONFIG_MISSING', 'The model backend is not configured'));
+    }
+    throw error;
+  }
+
+  const limiter = getRateLimiter();
+  const keys = clientKeys(request, limiter.config);
+  const limit = await limiter.check(keys);
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(apiError('INVALID_REQUEST', 'Request body must be valid JSON'));
+  }
+
+  const parsed = parse(body);
+  if (!parsed.success) {
+    return errorResponse(apiError('INVALID_REQUEST', 'Invalid request body', { issues: parsed.issues }));
+  }
+
+  const recordUsage = (tokens: number) => {
+    if (tokens <= 0) return;
+    limiter.recordUsage(keys, tokens).catch(error => console.error('Error recording usage:', error));
+  };
+
+  return { llm, data: parsed.data, recordUsage };
+}
@@ -0,0 +1,84 @@
+import { formatReferences, type Reference } from '@/lib/attachments';
+import type { ChatMessage } from '@/lib/llm';
+import { biggestGap, type AppSpec } from '@/lib/spec';
+import { getStrategy, type InterviewStrategy } from '@/lib/interviews';
+import { formatTranscript } from '@/lib/transcript';
+import type { ConversationRequest } from './schema';
+
+const BUILD_PROMPT_SYSTEM_PROMPT = `You turn an app-idea interview transcript into a webapp specification prompt for a code generator.
+Respond with the prompt only, using these Markdown sections: Overview, Target users, Core features, Data model, UI and styling, Technical constraints, Open questions.
+Only use facts from the transcript; list anything unclear under Open questions.`;
+
+// Only added when the session has attachments, so prompts without any stay as they were.
+const BUILD_PROMPT_REFERENCES_INSTRUCTION = 'End with a References section that lists every reference with what it shows.';
+
+const BUILD_PROMPT_MAX_TOKENS = 1000;
+
+function focusInstruction(spec: AppSpec, strategy: InterviewStrategy): string {
+  const gap = biggestGap(spec, strategy.focusFields);
+  return gap
+    ? `Aim the question at the biggest gap in the spec so far: ${gap.label.toLowerCase()} (${gap.description}).`
+    : 'Every area this interview covers has an answer; ask about whatever is still vague.';
+}
+
+function referencesInstruction(references: Reference[]): string {
+  return `The user attached these references:\n${formatReferences(references)}\nUse them to ask sharper questions.`;
+}
+
+function nextQuestionSystemPrompt(
+  strategy: InterviewStrategy,
+  spec?: AppSpec,
+  turn?: number,
+  references?: Reference[],
+): string {
+  const lines = [
+    strategy.systemPrompt,
+    `Ask exactly one follow-up question of at most ${strategy.maxQuestionWords} words. Tone: ${strategy.tone}.`,
+  ];
+  if (turn !== undefined) {
+    lines.push(`This is question ${turn + 1} of about ${strategy.targetTurns}.`);
+  }
+  if (spec) {
+    lines.push(focusInstruction(spec, strategy));
+  }
+  if (references?.length) {
+    lines.push(referencesInstruction(references));
+  }
+  return lines.join('\n');
+}
+
+export function buildMessages(request: ConversationRequest, spec?: AppSpec): ChatMessage[] {
+  switch (request.task) {
+    case 'next-question':
+      return [
+        {
+          role: 'system',
+          content: nextQuestionSystemPrompt(getStrategy(request.strategy), spec, request.turn, request.references),
+        },
+        { role: 'user', content: `Previous: "${request.question.trim()}". Answer: "${request.answer.trim()}". Next question:` },
+      ];
+    case 'build-prompt': {
+      const references = request.references?.length ? request.references : null;
+      const sections = [formatTranscript(request.turns)];
+      if (spec) sections.push(`Structured spec:\n${JSON.stringify(spec, null, 2)}`);
+      if (references) sections.push(`References:\n${formatReferences(references)}`);
+      return [
+        {
+          role: 'system',
+          content: references
+            ? `${BUILD_PROMPT_SYSTEM_PROMPT}\n${BUILD_PROMPT_REFERENCES_INSTRUCTION}`
+            : BUILD_PROMPT_SYSTEM_PROMPT,
+        },
+        { role: 'user', content: sections.join('\n\n') },
+      ];
+    }
+  }
+}
+
+// A question's budget follows the strategy's word limit, with room for tokenizer overhead.
+export function maxTokensFor(request: ConversationRequest, modelCap: number): number {
+  const budget = request.task === 'next-question'
+    ? Math.max(30, getStrategy(request.strategy).maxQuestionWords * 4)
+    : BUILD_PROMPT_MAX_TOKENS;
+  return Math.min(budget, modelCap);
+}
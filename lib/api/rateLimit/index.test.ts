@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { clientIp, clientKeys, createMemoryStore, createRateLimiter, readRateLimitConfig, type RateLimitConfig } from '.';
+
+const request = (headers: Record<string, string>) => new Request('http://localhost/api/openai', { headers });
+
+const config = (overrides: Partial<RateLimitConfig> = {}): RateLimitConfig => ({
+  ...readRateLimitConfig({} as NodeJS.ProcessEnv),
+  ...overrides,
+});
+
+describe('clientIp', () => {
+  it('takes the address the trusted proxy appended, not the one the client sent', () => {
+    const spoofed = request({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' });
+
+    expect(clientIp(spoofed, 1)).toBe('203.0.113.7');
+    expect(clientIp(spoofed, 2)).toBe('1.2.3.4');
+  });
+
+  it('ignores x-real-ip and falls back to a shared key without forwarding headers', () => {
+    expect(clientIp(request({ 'x-real-ip': '1.2.3.4' }), 1)).toBe('unknown');
+  });
+});
+
+describe('clientKeys', () => {
+  it('always includes the IP bucket', () => {
+    const withSession = request({ 'x-forwarded-for': '203.0.113.7', 'x-session-id': 'abc' });
+
+    expect(clientKeys(withSession, config())).toEqual(['ip:203.0.113.7']);
+    expect(clientKeys(withSession, config({ keyBy: 'session' }))).toEqual(['ip:203.0.113.7', 'session:abc']);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('keeps limiting a client that rotates session ids', async () => {
+    const limiter = createRateLimiter(createMemoryStore(), config({ keyBy: 'session', burst: 2 }), () => 0);
+    const keysFor = (sessionId: string) =>
+      clientKeys(request({ 'x-forwarded-for': '203.0.113.7', 'x-session-id': sessionId }), limiter.config);
+
+    expect(await limiter.check(keysFor('a'))).toEqual({ allowed: true });
+    expect(await limiter.check(keysFor('b'))).toEqual({ allowed: true });
+    expect(await limiter.check(keysFor('c'))).toMatchObject({ allowed: false, reason: 'rate' });
+  });
+
+  it('charges the daily budget to every key', async () => {
+    const limiter = createRateLimiter(createMemoryStore(), config({ keyBy: 'session', dailyTokenBudget: 100 }), () => 0);
+    const first = ['ip:203.0.113.7', 'session:a'];
+
+    await limiter.recordUsage(first, 100);
+
+    expect(await limiter.check(['ip:203.0.113.7', 'session:b'])).toMatchObject({ allowed: false, reason: 'budget' });
+    expect(await limiter.check(['ip:198.51.100.1'])).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,124 @@
+import { readNumber } from '@/lib/env';
+import { createMemoryStore, type RateLimitStore } from './store';
+
+export type { RateLimitStore } from './store';
+export { createMemoryStore } from './store';
+
+export interface RateLimitConfig {
+  // `session` adds a per-session bucket on top of the per-IP one; it never replaces it.
+  keyBy: 'ip' | 'session';
+  // Proxies in front of the app that append to x-forwarded-for.
+  trustedProxyHops: number;
+  burst: number;
+  refillPerMinute: number;
+  dailyTokenBudget: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate' | 'budget'; retryAfterSeconds: number };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function readRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    keyBy: env.RATE_LIMIT_KEY === 'session' ? 'session' : 'ip',
+    trustedProxyHops: Math.max(1, readNumber(env.TRUSTED_PROXY_HOPS, 1, { integer: true })),
+    burst: readNumber(env.RATE_LIMIT_BURST, 10),
+    refillPerMinute: readNumber(env.RATE_LIMIT_PER_MINUTE, 30),
+    dailyTokenBudget: readNumber(env.DAILY_TOKEN_BUDGET, 100_000),
+  };
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(time: number): number {
+  return Math.ceil((DAY_MS - (time % DAY_MS)) / 1000);
+}
+
+export function createRateLimiter(store: RateLimitStore, config: RateLimitConfig, now: () => number = Date.now) {
+  const refillPerMs = config.refillPerMinute / 60_000;
+  const budgetKey = (client: string, time: number) => `budget:${client}:${utcDay(time)}`;
+
+  return {
+    config,
+
+    // Takes one request token from every bucket the client has, and checks today's model-token budget
+    // for each. A request is only allowed when all of them allow it.
+    async check(keys: string[]): Promise<RateLimitResult> {
+      const time = now();
+
+      if (config.dailyTokenBudget > 0) {
+        for (const client of keys) {
+          const used = (await store.get<number>(budgetKey(client, time))) ?? 0;
+          if (used >= config.dailyTokenBudget) {
+            return { allowed: false, reason: 'budget', retryAfterSeconds: secondsUntilNextUtcDay(time) };
+          }
+        }
+      }
+
+      const buckets = await Promise.all(keys.map(async client => {
+        const key = `bucket:${client}`;
+        const saved = await store.get<Bucket>(key);
+        const elapsed = saved ? time - saved.updatedAt : 0;
+        return { key, tokens: Math.min(config.burst, (saved?.tokens ?? config.burst) + elapsed * refillPerMs) };
+      }));
+
+      const lowest = Math.min(...buckets.map(bucket => bucket.tokens));
+      if (lowest < 1) {
+        const retryAfterSeconds = refillPerMs > 0 ? Math.ceil((1 - lowest) / refillPerMs / 1000) : secondsUntilNextUtcDay(time);
+        await Promise.all(buckets.map(({ key, tokens }) => store.set<Bucket>(key, { tokens, updatedAt: time }, DAY_MS)));
+        return { allowed: false, reason: 'rate', retryAfterSeconds };
+      }
+
+      await Promise.all(buckets.map(({ key, tokens }) => store.set<Bucket>(key, { tokens: tokens - 1, updatedAt: time }, DAY_MS)));
+      return { allowed: true };
+    },
+
+    async recordUsage(keys: string[], tokens: number): Promise<void> {
+      if (config.dailyTokenBudget > 0 && tokens > 0) {
+        const time = now();
+        await Promise.all(keys.map(client => store.increment(budgetKey(client, time), tokens, DAY_MS)));
+      }
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// Each trusted proxy appends the address it got the request from, so the entry that many places from the
+// right is the first one a client can't choose. Entries further left, x-real-ip and the session id header
+// are all set by the client. Next.js only fills in x-forwarded-for when it is missing, so the app should
+// not be reachable except through the proxies.
+export function clientIp(request: Request, trustedProxyHops: number): string {
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - trustedProxyHops)] ?? 'unknown';
+}
+
+// The buckets a request counts against: always the client's address, plus its session when keyed by session.
+export function clientKeys(request: Request, { keyBy, trustedProxyHops }: RateLimitConfig): string[] {
+  const keys = [`ip:${clientIp(request, trustedProxyHops)}`];
+  const sessionId = request.headers.get('x-session-id');
+  if (keyBy === 'session' && sessionId) {
+    keys.push(`session:${sessionId}`);
+  }
+  return keys;
+}
+
+export { estimateTokens } from '@/lib/tokens';
+
+let limiter: RateLimiter | null = null;
+
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    limiter = createRateLimiter(createMemoryStore(), readRateLimitConfig());
+  }
+  return limiter;
+}
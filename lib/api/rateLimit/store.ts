@@ -0,0 +1,58 @@
+// Minimal key-value surface the limiter needs. A Redis-backed store maps these onto
+// GET / SET PX / INCRBY + PEXPIRE.
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL = 1000;
+
+export function createMemoryStore(now: () => number = Date.now): RateLimitStore {
+  const entries = new Map<string, Entry>();
+  let writes = 0;
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const write = (key: string, value: unknown, ttlMs: number) => {
+    entries.set(key, { value, expiresAt: now() + ttlMs });
+    if (++writes % SWEEP_INTERVAL === 0) {
+      entries.forEach((entry, entryKey) => {
+        if (entry.expiresAt <= now()) entries.delete(entryKey);
+      });
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      return (read(key)?.value as T) ?? null;
+    },
+
+    async set(key, value, ttlMs) {
+      write(key, value, ttlMs);
+    },
+
+    async increment(key, amount, ttlMs) {
+      const entry = read(key);
+      const value = ((entry?.value as number) ?? 0) + amount;
+      if (entry) {
+        entry.value = value;
+      } else {
+        write(key, value, ttlMs);
+      }
+      return value;
+    },
+  };
+}
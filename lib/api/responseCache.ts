@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { readNumber } from '@/lib/env';
+import type { CompletionRequest, CompletionResult, LLMProvider } from '@/lib/llm';
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface ResponseCacheConfig {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+interface Entry {
+  result: CompletionResult;
+  expiresAt: number;
+}
+
+export function readResponseCacheConfig(env: NodeJS.ProcessEnv = process.env): ResponseCacheConfig {
+  return {
+    ttlMs: readNumber(env.RESPONSE_CACHE_TTL_SECONDS, 600) * 1000,
+    maxEntries: readNumber(env.RESPONSE_CACHE_MAX_ENTRIES, 500),
+  };
+}
+
+// Whitespace-only differences (a retyped answer, a trailing newline) should still hit.
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+export function cacheKey(request: CompletionRequest): string {
+  const normalized = {
+    model: request.model,
+    messages: request.messages.map(({ role, content, images }) =>
+      images?.length ? [role, normalize(content), images] : [role, normalize(content)],
+    ),
+    maxTokens: request.maxTokens ?? null,
+    responseFormat: request.responseFormat ?? 'text',
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+// Least-recently-used eviction on top of Map insertion order.
+export function createResponseCache(config: ResponseCacheConfig, now: () => number = Date.now) {
+  const entries = new Map<string, Entry>();
+  const enabled = config.ttlMs > 0 && config.maxEntries > 0;
+
+  return {
+    enabled,
+
+    get(key: string): CompletionResult | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    set(key: string, result: CompletionResult) {
+      if (!enabled || !result.content.trim()) return;
+      entries.delete(key);
+      entries.set(key, { result, expiresAt: now() + config.ttlMs });
+      while (entries.size > config.maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
+
+// Serves repeated completions from `cache`; `onLookup` reports whether each call was a hit.
+export function withResponseCache(
+  provider: LLMProvider,
+  cache: ResponseCache,
+  onLookup?: (hit: boolean) => void,
+): LLMProvider {
+  return {
+    name: provider.name,
+
+    async complete(request) {
+      const key = cacheKey(request);
+      const cached = cache.get(key);
+      onLookup?.(cached !== undefined);
+      if (cached) return cached;
+
+      const result = await provider.complete(request);
+      cache.set(key, result);
+      return result;
+    },
+
+    async *stream(request) {
+      const key = cacheKey(request);
+      const cached = cache.get(key);
+      onLookup?.(cached !== undefined);
+      if (cached) {
+        yield cached.content;
+        return;
+      }
+
+      let content = '';
+      for await (const delta of provider.stream(request)) {
+        content += delta;
+        yield delta;
+      }
+      // Only reached when the stream ran to the end, so cancelled or failed streams are never cached.
+      cache.set(key, { content, finishReason: 'stop' });
+    },
+  };
+}
+
+let responseCache: ResponseCache | null = null;
+
+export function getResponseCache(): ResponseCache {
+  if (!responseCache) {
+    responseCache = createResponseCache(readResponseCacheConfig());
+  }
+  return responseCache;
+}
@@ -0,0 +1,43 @@
+// Response helpers shared by the API routes; server-only.
+import { NextResponse } from 'next/server';
+import { LLMProviderError } from '@/lib/llm';
+import { API_ERRORS, apiError, type ApiErrorBody } from './errors';
+import { ModelOutputError } from './modelOutput';
+import type { RateLimitResult } from './rateLimit';
+
+export function errorResponse(body: ApiErrorBody) {
+  const { code, retryAfter } = body.error;
+  return NextResponse.json(body, {
+    status: API_ERRORS[code].status,
+    headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined,
+  });
+}
+
+export function upstreamError(error: unknown): ApiErrorBody {
+  if (error instanceof ModelOutputError) {
+    return apiError('UPSTREAM_ERROR', 'The model returned a response in an unexpected format');
+  }
+  if (!(error instanceof LLMProviderError)) {
+    return apiError('UPSTREAM_ERROR', 'The model backend returned an error');
+  }
+
+  const retryAfter = error.retryAfter ?? undefined;
+  switch (error.kind) {
+    case 'rate_limited':
+      return apiError('UPSTREAM_RATE_LIMITED', 'The model backend is rate limiting requests', { retryAfter });
+    case 'quota_exceeded':
+      return apiError('QUOTA_EXCEEDED', 'The model backend quota is used up');
+    case 'timeout':
+      return apiError('UPSTREAM_TIMEOUT', 'The model backend took too long to respond');
+    case 'content_filtered':
+      return apiError('CONTENT_FILTERED', 'The response was blocked by the content filter');
+    default:
+      return apiError('UPSTREAM_ERROR', 'The model backend returned an error');
+  }
+}
+
+export function rateLimitedResponse(limit: Extract<RateLimitResult, { allowed: false }>) {
+  return errorResponse(limit.reason === 'budget'
+    ? apiError('QUOTA_EXCEEDED', 'Daily usage limit reached', { retryAfter: limit.retryAfterSeconds })
+    : apiError('RATE_LIMITED', 'Too many requests', { retryAfter: limit.retryAfterSeconds }));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from '@/lib/llm/mock';
+import { testLLM } from '@/lib/llm/testing';
+import type { Turn } from '@/lib/transcript';
+import { reviewInterview } from './review';
+
+const TURNS: Turn[] = [
+  { question: 'Where will people use it?', answer: 'It has to work offline on the train.' },
+  { question: 'What should it feel like?', answer: 'Fast, with live updates from other players.' },
+];
+
+describe('reviewInterview', () => {
+  it('returns the parsed issues, most severe first', async () => {
+    const issues = await reviewInterview(testLLM(), TURNS, undefined);
+
+    expect(issues.map(({ kind, severity, turns }) => ({ kind, severity, turns }))).toEqual([
+      { kind: 'contradiction', severity: 'high', turns: [0, 1] },
+      { kind: 'vague', severity: 'medium', turns: [1] },
+      { kind: 'missing-requirement', severity: 'low', turns: [] },
+    ]);
+    expect(issues[0].id).toMatch(/^contradiction-/);
+  });
+
+  it('drops malformed issues and answer indexes outside the interview', async () => {
+    const response = JSON.stringify({
+      issues: [
+        { kind: 'scope', severity: 'low', title: 'Too much for v1', followUp: 'What can wait?', turns: [1, 7, -1] },
+        { kind: 'unknown', severity: 'high', title: 'Not a kind', followUp: 'Why?' },
+        { kind: 'toString', severity: 'high', title: 'Inherited, not a kind', followUp: 'Why?' },
+        { kind: 'vague', severity: 'medium', title: 'No follow-up' },
+      ],
+    });
+    const issues = await reviewInterview(testLLM(createMockProvider({ respondWithJSON: () => response })), TURNS, undefined);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'scope', turns: [1], detail: '' });
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    const provider = createMockProvider({ respondWithJSON: () => 'No issues found.' });
+
+    await expect(reviewInterview(testLLM(provider), TURNS, undefined)).rejects.toMatchObject({ name: 'ModelOutputError' });
+  });
+});
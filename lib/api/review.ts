@@ -0,0 +1,43 @@
+import type { ResolvedLLM } from '@/lib/llm';
+import { parseReviewIssues, REVIEW_ISSUE_KINDS, type ReviewIssue } from '@/lib/review';
+import type { AppSpec } from '@/lib/spec';
+import type { Turn } from '@/lib/transcript';
+import { parseJSONObject } from './modelOutput';
+
+const REVIEW_MAX_TOKENS = 800;
+
+const REVIEW_SYSTEM_PROMPT = `You review an interview about a web app before its answers become a prompt for a code generator.
+You receive the numbered answers and the structured spec as JSON. Find:
+- contradiction: answers that cannot both hold (e.g. "offline-first" and "real-time multiplayer")
+- vague: terms a developer could not build from (e.g. "fast", "modern", "user-friendly")
+- missing-requirement: non-functional requirements nobody mentioned (performance, security, privacy, accessibility, scale)
+- scope: more than a first version can realistically deliver
+Return {"issues": [...]} where each issue has kind (${Object.keys(REVIEW_ISSUE_KINDS).join(', ')}), severity (high, medium, low),
+title (one line), detail (one or two sentences), turns (zero-based indexes of the answers involved) and followUp (one question whose answer would resolve it).
+Report only real problems, at most 10, most severe first. Return {"issues": []} if there are none. Respond with the JSON object only.`;
+
+export async function reviewInterview(
+  llm: ResolvedLLM,
+  turns: Turn[],
+  spec: AppSpec | undefined,
+  signal?: AbortSignal,
+): Promise<ReviewIssue[]> {
+  const completion = await llm.provider.complete({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: REVIEW_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: JSON.stringify({
+          answers: turns.map(({ question, answer }, index) => ({ index, question, answer })),
+          spec,
+        }),
+      },
+    ],
+    maxTokens: Math.min(REVIEW_MAX_TOKENS, llm.policy.maxTokens),
+    responseFormat: 'json',
+    signal,
+  });
+
+  return parseReviewIssues(parseJSONObject(completion.content), turns.length);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { toJSON } from '@/lib/export';
+import { appendTurn, createSession } from '@/lib/session';
+import { SHARE_LIMITS } from '@/lib/sharing/types';
+import { parseCommentRequest, parseShareRequest } from './schema';
+
+const exported = () => JSON.parse(toJSON(appendTurn(createSession(), { question: 'What kind of app?', answer: 'A blog' })));
+
+describe('parseShareRequest', () => {
+  it('accepts an exported session', () => {
+    const result = parseShareRequest(JSON.stringify(exported()));
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.turns).toHaveLength(1);
+  });
+
+  it('rejects a session whose generated prompt is not text', () => {
+    const document = exported();
+    document.session.builtPrompt = { toString: 'boom' };
+
+    expect(parseShareRequest(JSON.stringify(document))).toEqual({
+      success: false,
+      issues: [{ path: '', message: 'The generated prompt in this file is not text' }],
+    });
+  });
+
+  it('rejects answers over the length limit', () => {
+    const document = exported();
+    document.session.turns[0].answer = 'a'.repeat(5000);
+
+    expect(parseShareRequest(JSON.stringify(document)).success).toBe(false);
+  });
+
+  it('rejects documents over the byte limit', () => {
+    const result = parseShareRequest('x'.repeat(SHARE_LIMITS.documentBytes + 1));
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.issues[0].message).toMatch(/at most/);
+  });
+});
+
+describe('parseCommentRequest', () => {
+  it('trims the author and body', () => {
+    expect(parseCommentRequest({ turn: 0, author: ' Sam ', body: ' Add QA \n' })).toEqual({
+      success: true,
+      data: { turn: 0, author: 'Sam', body: 'Add QA' },
+    });
+  });
+
+  it('rejects a missing author, an empty body and a bad turn', () => {
+    const result = parseCommentRequest({ turn: -1, body: ' ' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.issues.map(issue => issue.path)).toEqual(['turn', 'author', 'body']);
+  });
+
+  it('rejects comments over the length limit', () => {
+    expect(parseCommentRequest({ turn: 0, author: 'Sam', body: 'x'.repeat(SHARE_LIMITS.comment + 1) }).success)
+      .toBe(false);
+  });
+});
@@ -0,0 +1,367 @@
+import { ATTACHMENT_KINDS, ATTACHMENT_LIMITS, IMAGE_TYPES, isAttachmentKind, type Reference } from '@/lib/attachments';
+import { parseAppSpec, type AppSpec } from '@/lib/spec';
+import { ExportFormatError, parseSessionExport } from '@/lib/export';
+import { findStrategy } from '@/lib/interviews';
+import { LIMITS } from '@/lib/limits';
+import type { Session } from '@/lib/session';
+import { SHARE_LIMITS } from '@/lib/sharing/types';
+import type { Turn } from '@/lib/transcript';
+import type { AttachmentInput } from './attachments';
+import type { ValidationIssue } from './errors';
+import type { CacheStatus } from './responseCache';
+
+export { LIMITS };
+
+export interface NextQuestionRequest {
+  task: 'next-question';
+  question: string;
+  answer: string;
+  spec?: AppSpec;
+  // Interview strategy id; unknown ids are rejected.
+  strategy?: string;
+  // Answers given before this one, so the prompt knows how far into the interview it is.
+  turn?: number;
+  references?: Reference[];
+  stream?: boolean;
+  // Skips the server's response cache, e.g. when the user explicitly asks for another take.
+  noCache?: boolean;
+}
+
+export interface BuildPromptRequest {
+  task: 'build-prompt';
+  turns: Turn[];
+  spec?: AppSpec;
+  references?: Reference[];
+  stream?: boolean;
+  noCache?: boolean;
+}
+
+// Reads an attached image or text file once and returns a summary for the session to keep.
+export interface SummarizeAttachmentRequest {
+  task: 'summarize-attachment';
+  attachment: AttachmentInput;
+  noCache?: boolean;
+}
+
+// The tasks that are answered by streaming text from the conversation so far.
+export type ConversationRequest = NextQuestionRequest | BuildPromptRequest;
+
+export type GenerateRequest = ConversationRequest | SummarizeAttachmentRequest;
+
+// What /api/openai answers a conversation request with when `stream` is off.
+export interface CompletionResponse {
+  index: number;
+  message: { role: 'assistant'; content: string };
+  finish_reason: string | null;
+  cache: CacheStatus;
+  // Next-question requests only: the spec after this answer, and answer suggestions for the new question.
+  spec?: AppSpec;
+  suggestions?: string[];
+}
+
+export interface SummarizeAttachmentResponse {
+  summary: string;
+  cache: CacheStatus;
+}
+
+export type GenerateResponse<T extends GenerateRequest> =
+  T extends SummarizeAttachmentRequest ? SummarizeAttachmentResponse : CompletionResponse;
+
+// The named events of a streamed response, besides the text deltas.
+export type StreamEvent =
+  | { event: 'spec'; spec: AppSpec }
+  | { event: 'suggestions'; suggestions: string[] }
+  | { event: 'meta'; cache: CacheStatus };
+
+export interface ReviewRequest {
+  turns: Turn[];
+  spec?: AppSpec;
+  // Ids of issues the user already dismissed; they are left out of the response.
+  dismissed?: string[];
+  noCache?: boolean;
+}
+
+export interface IngestRequest {
+  document: string;
+  spec?: AppSpec;
+  noCache?: boolean;
+}
+
+// A reviewer's note on one answer of a shared session.
+export interface CommentRequest {
+  turn: number;
+  author: string;
+  body: string;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(fields: Fields, key: string, max: number, issues: ValidationIssue[], path = key): string {
+  const value = fields[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push({ path, message: 'Expected a non-empty string' });
+    return '';
+  }
+  if (value.length > max) {
+    issues.push({ path, message: `Must be at most ${max} characters` });
+  }
+  return value;
+}
+
+function readBoolean(fields: Fields, key: string, issues: ValidationIssue[]): boolean | undefined {
+  if (fields[key] === undefined) return undefined;
+  if (typeof fields[key] !== 'boolean') {
+    issues.push({ path: key, message: 'Expected a boolean' });
+  }
+  return fields[key] === true;
+}
+
+function readStrategy(fields: Fields, issues: ValidationIssue[]): string | undefined {
+  if (fields.strategy === undefined) return undefined;
+  if (typeof fields.strategy !== 'string' || !findStrategy(fields.strategy)) {
+    issues.push({ path: 'strategy', message: 'Unknown interview strategy' });
+    return undefined;
+  }
+  return fields.strategy;
+}
+
+function readTurnNumber(fields: Fields, issues: ValidationIssue[]): number | undefined {
+  if (fields.turn === undefined) return undefined;
+  const value = fields.turn;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > LIMITS.turns) {
+    issues.push({ path: 'turn', message: `Expected an integer between 0 and ${LIMITS.turns}` });
+    return undefined;
+  }
+  return value;
+}
+
+function readSpec(fields: Fields, issues: ValidationIssue[]): AppSpec | undefined {
+  if (fields.spec === undefined) return undefined;
+  const parsed = parseAppSpec(fields.spec);
+  if (!parsed.success) {
+    issues.push(...parsed.issues);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+function readReferences(fields: Fields, issues: ValidationIssue[]): Reference[] | undefined {
+  const value = fields.references;
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > ATTACHMENT_LIMITS.perSession) {
+    issues.push({ path: 'references', message: `Expected an array of at most ${ATTACHMENT_LIMITS.perSession} references` });
+    return undefined;
+  }
+
+  return value.map((reference, index) => {
+    const path = `references.${index}`;
+    if (!isObject(reference) || !isAttachmentKind(reference.kind)) {
+      issues.push({ path, message: `Expected an object with a kind of ${Object.keys(ATTACHMENT_KINDS).join(', ')}` });
+      return { kind: 'text', name: '', summary: '' };
+    }
+    const url = reference.url === undefined
+      ? undefined
+      : readString(reference, 'url', ATTACHMENT_LIMITS.name, issues, `${path}.url`);
+    return {
+      kind: reference.kind,
+      name: readString(reference, 'name', ATTACHMENT_LIMITS.name, issues, `${path}.name`),
+      summary: readString(reference, 'summary', ATTACHMENT_LIMITS.summary, issues, `${path}.summary`),
+      ...(url ? { url } : {}),
+    };
+  });
+}
+
+// Base64 grows data by a third; the limit applies to the decoded image.
+const MAX_IMAGE_BASE64 = Math.ceil(ATTACHMENT_LIMITS.imageBytes / 3) * 4;
+
+function readAttachment(fields: Fields, issues: ValidationIssue[]): AttachmentInput {
+  const value = fields.attachment;
+  if (!isObject(value)) {
+    issues.push({ path: 'attachment', message: 'Expected an object' });
+    return { kind: 'text', name: '', text: '' };
+  }
+
+  const name = readString(value, 'name', ATTACHMENT_LIMITS.name, issues, 'attachment.name');
+  switch (value.kind) {
+    case 'image': {
+      if (typeof value.mediaType !== 'string' || !IMAGE_TYPES.includes(value.mediaType)) {
+        issues.push({ path: 'attachment.mediaType', message: `Expected one of ${IMAGE_TYPES.join(', ')}` });
+      }
+      const data = readString(value, 'data', MAX_IMAGE_BASE64, issues, 'attachment.data');
+      if (data && !/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+        issues.push({ path: 'attachment.data', message: 'Expected base64-encoded image data' });
+      }
+      return { kind: 'image', name, mediaType: String(value.mediaType), data };
+    }
+    case 'text':
+      return {
+        kind: 'text',
+        name,
+        text: readString(value, 'text', ATTACHMENT_LIMITS.textChars, issues, 'attachment.text'),
+      };
+    default:
+      issues.push({ path: 'attachment.kind', message: 'Expected "image" or "text"' });
+      return { kind: 'text', name, text: '' };
+  }
+}
+
+function readTurns(fields: Fields, issues: ValidationIssue[]): Turn[] {
+  const value = fields.turns;
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push({ path: 'turns', message: 'Expected a non-empty array' });
+    return [];
+  }
+  if (value.length > LIMITS.turns) {
+    issues.push({ path: 'turns', message: `Must contain at most ${LIMITS.turns} turns` });
+    return [];
+  }
+
+  return value.map((turn, index) => {
+    if (!isObject(turn)) {
+      issues.push({ path: `turns.${index}`, message: 'Expected an object' });
+      return { question: '', answer: '' };
+    }
+    return {
+      question: readString(turn, 'question', LIMITS.question, issues, `turns.${index}.question`),
+      answer: readString(turn, 'answer', LIMITS.answer, issues, `turns.${index}.answer`),
+    };
+  });
+}
+
+export function parseGenerateRequest(body: unknown): ParseResult<GenerateRequest> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ path: '', message: 'Expected a JSON object' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const stream = readBoolean(body, 'stream', issues);
+  const noCache = readBoolean(body, 'noCache', issues);
+  let data: GenerateRequest;
+
+  switch (body.task) {
+    case 'next-question':
+      data = {
+        task: 'next-question',
+        question: readString(body, 'question', LIMITS.question, issues),
+        answer: readString(body, 'answer', LIMITS.answer, issues),
+        spec: readSpec(body, issues),
+        strategy: readStrategy(body, issues),
+        turn: readTurnNumber(body, issues),
+        references: readReferences(body, issues),
+        stream,
+        noCache,
+      };
+      break;
+    case 'build-prompt':
+      data = {
+        task: 'build-prompt',
+        turns: readTurns(body, issues),
+        spec: readSpec(body, issues),
+        references: readReferences(body, issues),
+        stream,
+        noCache,
+      };
+      break;
+    case 'summarize-attachment':
+      if (stream) {
+        issues.push({ path: 'stream', message: 'Attachment summaries cannot be streamed' });
+      }
+      data = {
+        task: 'summarize-attachment',
+        attachment: readAttachment(body, issues),
+        noCache,
+      };
+      break;
+    default:
+      return {
+        success: false,
+        issues: [{ path: 'task', message: 'Expected "next-question", "build-prompt" or "summarize-attachment"' }],
+      };
+  }
+
+  return issues.length ? { success: false, issues } : { success: true, data };
+}
+
+function readIds(fields: Fields, key: string, issues: ValidationIssue[]): string[] | undefined {
+  const value = fields[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > LIMITS.dismissed || !value.every(id => typeof id === 'string')) {
+    issues.push({ path: key, message: `Expected an array of at most ${LIMITS.dismissed} strings` });
+    return undefined;
+  }
+  return value;
+}
+
+export function parseReviewRequest(body: unknown): ParseResult<ReviewRequest> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ path: '', message: 'Expected a JSON object' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const data: ReviewRequest = {
+    turns: readTurns(body, issues),
+    spec: readSpec(body, issues),
+    dismissed: readIds(body, 'dismissed', issues),
+    noCache: readBoolean(body, 'noCache', issues),
+  };
+
+  return issues.length ? { success: false, issues } : { success: true, data };
+}
+
+export function parseIngestRequest(body: unknown): ParseResult<IngestRequest> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ path: '', message: 'Expected a JSON object' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const data: IngestRequest = {
+    document: readString(body, 'document', LIMITS.document, issues),
+    spec: readSpec(body, issues),
+    noCache: readBoolean(body, 'noCache', issues),
+  };
+
+  return issues.length ? { success: false, issues } : { success: true, data };
+}
+
+export function parseCommentRequest(body: unknown): ParseResult<CommentRequest> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ path: '', message: 'Expected a JSON object' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (typeof body.turn !== 'number' || !Number.isInteger(body.turn) || body.turn < 0 || body.turn >= LIMITS.turns) {
+    issues.push({ path: 'turn', message: `Expected an integer between 0 and ${LIMITS.turns - 1}` });
+  }
+  const data: CommentRequest = {
+    turn: body.turn as number,
+    author: readString(body, 'author', SHARE_LIMITS.author, issues).trim(),
+    body: readString(body, 'body', SHARE_LIMITS.comment, issues).trim(),
+  };
+
+  return issues.length ? { success: false, issues } : { success: true, data };
+}
+
+// Sessions are published as the same JSON document the export menu produces. Shared copies
+// are rendered for every viewer, so they get the same strict checks as an import.
+export function parseShareRequest(text: string): ParseResult<Session> {
+  if (new TextEncoder().encode(text).length > SHARE_LIMITS.documentBytes) {
+    return { success: false, issues: [{ path: '', message: `Must be at most ${SHARE_LIMITS.documentBytes} bytes` }] };
+  }
+
+  let session: Session;
+  try {
+    session = parseSessionExport(text);
+  } catch (error) {
+    if (!(error instanceof ExportFormatError)) throw error;
+    return { success: false, issues: [{ path: '', message: error.message }] };
+  }
+  return { success: true, data: session };
+}
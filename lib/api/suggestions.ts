@@ -0,0 +1,56 @@
+import type { ResolvedLLM } from '@/lib/llm';
+import type { AppSpec } from '@/lib/spec';
+import { parseJSONObject } from './modelOutput';
+
+export const SUGGESTION_LIMITS = {
+  min: 3,
+  max: 5,
+  length: 60,
+};
+
+const SUGGESTIONS_MAX_TOKENS = 150;
+
+const SUGGESTIONS_SYSTEM_PROMPT = `You help someone answer interview questions about a web app they want to build.
+You receive the question and what is known about the app so far as JSON.
+Return {"suggestions": [...]} with ${SUGGESTION_LIMITS.min} to ${SUGGESTION_LIMITS.max} short, distinct answers the user might give, each under ${SUGGESTION_LIMITS.length} characters.
+Make them concrete and different from each other. Respond with the JSON object only.`;
+
+// Keeps only usable chips; fewer than the minimum means the model didn't really answer.
+export function normalizeSuggestions(value: unknown): string[] {
+  const raw = (value as { suggestions?: unknown } | null)?.suggestions;
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const suggestions = raw
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim().replace(/\s+/g, ' '))
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || item.length > SUGGESTION_LIMITS.length || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, SUGGESTION_LIMITS.max);
+
+  return suggestions.length >= SUGGESTION_LIMITS.min ? suggestions : [];
+}
+
+export async function suggestAnswers(
+  llm: ResolvedLLM,
+  question: string,
+  spec: AppSpec | undefined,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const completion = await llm.provider.complete({
+    model: llm.model,
+    messages: [
+      { role: 'system', content: SUGGESTIONS_SYSTEM_PROMPT },
+      { role: 'user', content: JSON.stringify({ question, spec }) },
+    ],
+    maxTokens: Math.min(SUGGESTIONS_MAX_TOKENS, llm.policy.maxTokens),
+    responseFormat: 'json',
+    signal,
+  });
+
+  return normalizeSuggestions(parseJSONObject(completion.content));
+}
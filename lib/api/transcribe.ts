@@ -0,0 +1,73 @@
+import { errorKindForStatus, LLMConfigError, LLMProviderError, parseRetryAfter, type TokenUsage } from '@/lib/llm';
+import { estimateTokens } from '@/lib/tokens';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// OpenAI's upload limit; local Whisper servers accept at least this much.
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// Uploads are multipart; this covers the boundaries, the language field and the file name.
+export const MAX_TRANSCRIBE_BODY_BYTES = MAX_AUDIO_BYTES + 64 * 1024;
+
+// About ten tokens per second of compressed speech, which is how OpenAI meters audio input.
+const AUDIO_BYTES_PER_TOKEN = 400;
+
+export interface TranscriptionConfig {
+  baseURL: string;
+  apiKey: string | null;
+  model: string;
+}
+
+// Any server implementing OpenAI's /audio/transcriptions works, e.g. a local faster-whisper or whisper.cpp server.
+export function readTranscriptionConfig(env: NodeJS.ProcessEnv = process.env): TranscriptionConfig {
+  const baseURL = (env.TRANSCRIPTION_BASE_URL || OPENAI_BASE_URL).replace(/\/+$/, '');
+  const apiKey = env.TRANSCRIPTION_API_KEY || env.OPENAI_API_KEY || null;
+  if (baseURL === OPENAI_BASE_URL && !apiKey) {
+    throw new LLMConfigError('TRANSCRIPTION_API_KEY or OPENAI_API_KEY is required to transcribe with OpenAI');
+  }
+  return { baseURL, apiKey, model: env.TRANSCRIPTION_MODEL || 'whisper-1' };
+}
+
+export async function transcribeAudio(
+  config: TranscriptionConfig,
+  audio: Blob,
+  fileName: string,
+  language: string | null,
+  signal?: AbortSignal,
+): Promise<string> {
+  const form = new FormData();
+  form.append('file', audio, fileName);
+  form.append('model', config.model);
+  if (language) form.append('language', language);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.baseURL}/audio/transcriptions`, {
+      method: 'POST',
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      body: form,
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new LLMProviderError(`Transcription service unreachable: ${reason}`, 'unavailable');
+  }
+
+  if (!response.ok) {
+    throw new LLMProviderError(
+      `Transcription failed with status ${response.status}: ${await response.text()}`,
+      errorKindForStatus(response.status),
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+    );
+  }
+
+  const { text } = await response.json();
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+// Transcription services don't report tokens, so the audio counts by size and the transcript by length.
+export function estimateTranscriptionUsage(audioBytes: number, text: string): TokenUsage {
+  return { promptTokens: Math.ceil(audioBytes / AUDIO_BYTES_PER_TOKEN), completionTokens: estimateTokens(text) };
+}
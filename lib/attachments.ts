@@ -0,0 +1,47 @@
+// Reference material attached to a session. Only the summary is kept: the file itself is read once,
+// summarized by the server, and dropped, so sessions stay small enough for local storage.
+
+export type AttachmentKind = 'image' | 'text' | 'url';
+
+export const ATTACHMENT_KINDS: Record<AttachmentKind, string> = {
+  image: 'Image',
+  text: 'Text file',
+  url: 'Link',
+};
+
+export function isAttachmentKind(value: unknown): value is AttachmentKind {
+  return typeof value === 'string' && Object.keys(ATTACHMENT_KINDS).includes(value);
+}
+
+export const ATTACHMENT_LIMITS = {
+  perSession: 10,
+  name: 200,
+  summary: 1000,
+  imageBytes: 4 * 1024 * 1024,
+  textChars: 100000,
+};
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface Attachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  summary: string;
+  // Set for links; the page itself is never fetched.
+  url?: string;
+  addedAt: string;
+}
+
+// What question generation and prompt building get to see of an attachment.
+export type Reference = Pick<Attachment, 'kind' | 'name' | 'summary' | 'url'>;
+
+export function toReferences(attachments: Attachment[]): Reference[] {
+  return attachments.map(({ kind, name, summary, url }) => ({ kind, name, summary, ...(url ? { url } : {}) }));
+}
+
+export function formatReferences(references: Reference[]): string {
+  return references
+    .map(({ kind, name, summary, url }) => `- ${name} (${ATTACHMENT_KINDS[kind].toLowerCase()}${url ? `, ${url}` : ''}): ${summary}`)
+    .join('\n');
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { CHECKLIST, readThreshold, scoreCompleteness } from './completeness';
+import { createEmptySpec, type AppSpec } from './spec';
+
+const TOTAL_WEIGHT = CHECKLIST.reduce((sum, item) => sum + item.weight, 0);
+
+const spec = (fields: Partial<AppSpec>): AppSpec => ({ ...createEmptySpec(), ...fields });
+
+const REQUIRED_ONLY = spec({
+  appType: 'Task tracker',
+  targetUsers: ['Team leads'],
+  coreFeatures: ['Assign tasks'],
+  dataEntities: ['Task'],
+});
+
+describe('scoreCompleteness', () => {
+  it('scores an empty spec with no answers as zero', () => {
+    const result = scoreCompleteness(createEmptySpec(), []);
+
+    expect(result.score).toBe(0);
+    expect(result.covered).toEqual([]);
+    expect(result.missing).toEqual(CHECKLIST.map(item => item.topic));
+    expect(result.missingRequired).toEqual(['purpose', 'users', 'features', 'data']);
+    expect(result.isReady).toBe(false);
+  });
+
+  it('weights a partial spec by the topics it covers', () => {
+    const result = scoreCompleteness(spec({ appType: 'Blog', coreFeatures: ['Posts'] }), []);
+
+    expect(result.score).toBeCloseTo(5 / TOTAL_WEIGHT);
+    expect(result.covered).toEqual(['purpose', 'features']);
+    expect(result.missingRequired).toEqual(['users', 'data']);
+    expect(result.isReady).toBe(false);
+  });
+
+  it('counts topics that were answered even when the spec is empty', () => {
+    const result = scoreCompleteness(createEmptySpec(), [
+      { question: 'What kind of app would you like to create?', answer: 'A recipe site' },
+      { question: 'Who are the users?', answer: 'Home cooks' },
+    ]);
+
+    expect(result.covered).toEqual(['purpose', 'users']);
+  });
+
+  it('ignores blank answers', () => {
+    const result = scoreCompleteness(createEmptySpec(), [{ question: 'Who are the users?', answer: '  ' }]);
+
+    expect(result.covered).toEqual([]);
+  });
+
+  it('scores a full spec as one and ready', () => {
+    const result = scoreCompleteness(spec({
+      ...REQUIRED_ONLY,
+      authNeeds: 'Email login',
+      stylingPreferences: ['Minimal'],
+    }), []);
+
+    expect(result.score).toBe(1);
+    expect(result.missing).toEqual([]);
+    expect(result.isReady).toBe(true);
+  });
+
+  it('is ready exactly at the threshold and not just below it', () => {
+    const score = scoreCompleteness(REQUIRED_ONLY, []).score;
+
+    expect(scoreCompleteness(REQUIRED_ONLY, [], { threshold: score }).isReady).toBe(true);
+    expect(scoreCompleteness(REQUIRED_ONLY, [], { threshold: score + 0.001 }).isReady).toBe(false);
+  });
+
+  it('uses a custom checklist', () => {
+    const checklist = CHECKLIST.filter(item => item.topic === 'purpose');
+
+    expect(scoreCompleteness(spec({ appType: 'Shop' }), [], { checklist }).score).toBe(1);
+  });
+});
+
+describe('readThreshold', () => {
+  it('accepts fractions in (0, 1]', () => {
+    expect(readThreshold('0.5')).toBe(0.5);
+    expect(readThreshold('1')).toBe(1);
+  });
+
+  it('falls back to the default for missing or out-of-range values', () => {
+    expect(readThreshold(undefined)).toBe(0.8);
+    expect(readThreshold('0')).toBe(0.8);
+    expect(readThreshold('1.5')).toBe(0.8);
+    expect(readThreshold('abc')).toBe(0.8);
+  });
+});
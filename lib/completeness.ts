@@ -0,0 +1,68 @@
+import { isFieldFilled, type AppSpec, type SpecField } from './spec';
+import { TOPIC_LABELS, topicOfTurn, type Topic } from './topics';
+import type { Turn } from './transcript';
+
+export interface ChecklistItem {
+  topic: Topic;
+  label: string;
+  required: boolean;
+  weight: number;
+  field: SpecField;
+}
+
+export const CHECKLIST: ChecklistItem[] = [
+  { topic: 'purpose', label: TOPIC_LABELS.purpose, required: true, weight: 2, field: 'appType' },
+  { topic: 'users', label: TOPIC_LABELS.users, required: true, weight: 2, field: 'targetUsers' },
+  { topic: 'features', label: TOPIC_LABELS.features, required: true, weight: 3, field: 'coreFeatures' },
+  { topic: 'data', label: TOPIC_LABELS.data, required: true, weight: 2, field: 'dataEntities' },
+  { topic: 'auth', label: TOPIC_LABELS.auth, required: false, weight: 1, field: 'authNeeds' },
+  { topic: 'ui', label: TOPIC_LABELS.ui, required: false, weight: 1, field: 'stylingPreferences' },
+];
+
+export const DEFAULT_READY_THRESHOLD = 0.8;
+
+export interface Completeness {
+  score: number;
+  covered: Topic[];
+  missing: Topic[];
+  missingRequired: Topic[];
+  isReady: boolean;
+}
+
+interface CompletenessOptions {
+  threshold?: number;
+  checklist?: ChecklistItem[];
+}
+
+// A topic counts as covered when the extracted spec has it or any answer was clearly about it,
+// so the meter still moves when spec extraction is unavailable.
+export function scoreCompleteness(
+  spec: AppSpec,
+  turns: Turn[],
+  { threshold = DEFAULT_READY_THRESHOLD, checklist = CHECKLIST }: CompletenessOptions = {},
+): Completeness {
+  const answered = new Set<Topic>();
+  turns.forEach((turn, index) => {
+    const topic = topicOfTurn(turn, index);
+    if (topic && turn.answer.trim()) answered.add(topic);
+  });
+
+  const isCovered = (item: ChecklistItem) => isFieldFilled(spec, item.field) || answered.has(item.topic);
+  const covered = checklist.filter(isCovered);
+  const totalWeight = checklist.reduce((sum, item) => sum + item.weight, 0);
+  const coveredWeight = covered.reduce((sum, item) => sum + item.weight, 0);
+  const score = totalWeight ? coveredWeight / totalWeight : 0;
+
+  return {
+    score,
+    covered: covered.map(item => item.topic),
+    missing: checklist.filter(item => !isCovered(item)).map(item => item.topic),
+    missingRequired: checklist.filter(item => item.required && !isCovered(item)).map(item => item.topic),
+    isReady: score >= threshold,
+  };
+}
+
+export function readThreshold(value: string | undefined): number {
+  const threshold = Number(value);
+  return value && threshold > 0 && threshold <= 1 ? threshold : DEFAULT_READY_THRESHOLD;
+}
@@ -0,0 +1,10 @@
+// Reads a non-negative number from an environment variable; unset or invalid values get `fallback`.
+export function readNumber(
+  value: string | undefined,
+  fallback: number,
+  { integer = false }: { integer?: boolean } = {},
+): number {
+  const parsed = Number(value);
+  const valid = integer ? Number.isInteger(parsed) : Number.isFinite(parsed);
+  return value && valid && parsed >= 0 ? parsed : fallback;
+}
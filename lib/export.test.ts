@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ExportFormatError, parseSessionExport, toJSON } from './export';
+import { LIMITS } from './limits';
+import { appendTurn, createSession } from './session';
+
+const exportWith = (session: Record<string, unknown>) => JSON.stringify({
+  schema: 'webapp-prompt-builder/session',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  session: {
+    title: 'Team tracker',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    turns: [{ question: 'What kind of app would you like to create?', answer: 'A task tracker' }],
+    currentQuestion: 'Who will use it?',
+    builtPrompt: null,
+    ...session,
+  },
+});
+
+const rejects = (text: string, message: RegExp) => {
+  expect(() => parseSessionExport(text)).toThrow(ExportFormatError);
+  expect(() => parseSessionExport(text)).toThrow(message);
+};
+
+describe('parseSessionExport', () => {
+  it('round-trips an exported session under a fresh id', () => {
+    const session = appendTurn(createSession(), { question: 'What kind of app?', answer: 'A **blog**' });
+    const imported = parseSessionExport(toJSON({ ...session, builtPrompt: 'Build a blog' }));
+
+    expect(imported.id).not.toBe(session.id);
+    expect(imported.title).toBe(session.title);
+    expect(imported.turns).toEqual([{ question: 'What kind of app?', answer: 'A **blog**' }]);
+    expect(imported.builtPrompt).toBe('Build a blog');
+    expect(imported.share).toBeNull();
+  });
+
+  it('fills in optional fields that are missing', () => {
+    const imported = parseSessionExport(exportWith({ currentQuestion: undefined, builtPrompt: undefined }));
+
+    expect(imported.currentQuestion).toBe(createSession().currentQuestion);
+    expect(imported.builtPrompt).toBeNull();
+  });
+
+  it('rejects files that are not session exports', () => {
+    rejects('not json', /not valid JSON/);
+    rejects(JSON.stringify({ schema: 'something-else' }), /not a prompt builder session export/);
+    rejects(JSON.stringify({ schema: 'webapp-prompt-builder/session', version: 2 }), /Unsupported export version 2/);
+    rejects(JSON.stringify({ schema: 'webapp-prompt-builder/session', version: 1, session: 'x' }), /incomplete/);
+  });
+
+  it('rejects fields with the wrong type', () => {
+    rejects(exportWith({ title: 42 }), /title in this file is not text/);
+    rejects(exportWith({ currentQuestion: {} }), /current question in this file is not text/);
+    rejects(exportWith({ builtPrompt: {} }), /generated prompt in this file is not text/);
+    rejects(exportWith({ createdAt: 5 }), /creation date in this file is not text/);
+    rejects(exportWith({ createdAt: 'yesterday' }), /creation date in this file is not a date/);
+    rejects(exportWith({ templateId: ['generic'] }), /template in this file is not text/);
+    rejects(exportWith({ spec: { appType: 7 } }), /spec in this file is invalid/);
+  });
+
+  it('rejects malformed turns', () => {
+    rejects(exportWith({ turns: [null] }), /Answer 1 in this file is incomplete/);
+    rejects(exportWith({ turns: [{ question: 'Why?', answer: { text: 'Because' } }] }), /Answer 1 in this file is not text/);
+  });
+
+  it('rejects content over the size limits', () => {
+    const answer = 'a'.repeat(LIMITS.answer + 1);
+    rejects(exportWith({ turns: [{ question: 'Why?', answer }] }), /Answer 1 in this file is longer than/);
+
+    const turns = Array.from({ length: LIMITS.turns + 1 }, () => ({ question: 'Why?', answer: 'Because' }));
+    rejects(exportWith({ turns }), /more than 100 answers/);
+
+    rejects(exportWith({ builtPrompt: 'p'.repeat(LIMITS.prompt + 1) }), /generated prompt in this file is longer than/);
+  });
+
+  it('drops attachments that are malformed', () => {
+    const valid = { id: 'a', kind: 'url', name: 'Docs', summary: 'API docs', url: 'https://example.com', addedAt: '2026-01-01' };
+    const imported = parseSessionExport(exportWith({
+      attachments: [valid, { ...valid, id: 'b', kind: 'video' }, { ...valid, id: 'c', url: {} }],
+    }));
+
+    expect(imported.attachments.map(attachment => attachment.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,185 @@
+import { ATTACHMENT_LIMITS, formatReferences, isAttachmentKind, toReferences, type Attachment } from './attachments';
+import { LIMITS } from './limits';
+import { createSession, normalizeSession, type Session } from './session';
+import { parseAppSpec } from './spec';
+import { groupTurnsByTopic, TOPIC_LABELS } from './topics';
+import { ANSWER_SOURCES, formatTranscript, type Turn } from './transcript';
+
+export const EXPORT_SCHEMA = 'webapp-prompt-builder/session';
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'text';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+export interface SessionExport {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  session: Pick<
+    Session,
+    'title' | 'createdAt' | 'updatedAt' | 'turns' | 'currentQuestion' | 'builtPrompt' | 'spec' | 'templateId' | 'strategyId'
+  > & Partial<Pick<Session, 'attachments'>>;
+}
+
+export class ExportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportFormatError';
+  }
+}
+
+export function toMarkdown(session: Session): string {
+  const sections = groupTurnsByTopic(session.turns).map(({ topic, turns }) => {
+    const entries = turns.map(turn => `**${turn.question}**\n\n${turn.answer}`).join('\n\n');
+    return `## ${topic ? TOPIC_LABELS[topic] : 'Other notes'}\n\n${entries}`;
+  });
+
+  if (session.attachments.length) {
+    sections.push(`## References\n\n${formatReferences(toReferences(session.attachments))}`);
+  }
+  if (session.builtPrompt) {
+    sections.push(`## Generated prompt\n\n${session.builtPrompt}`);
+  }
+
+  return [`# ${session.title}`, ...sections].join('\n\n') + '\n';
+}
+
+export function toJSON(session: Session): string {
+  const document: SessionExport = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      turns: session.turns,
+      currentQuestion: session.currentQuestion,
+      builtPrompt: session.builtPrompt,
+      spec: session.spec,
+      templateId: session.templateId,
+      strategyId: session.strategyId,
+      attachments: session.attachments,
+    },
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+export function toPlainText(session: Session): string {
+  const parts = [session.title, formatTranscript(session.turns)];
+  if (session.builtPrompt) {
+    parts.push(`Generated prompt:\n\n${session.builtPrompt}`);
+  }
+  return parts.join('\n\n') + '\n';
+}
+
+export function exportSession(session: Session, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(session);
+    case 'json':
+      return toJSON(session);
+    case 'text':
+      return toPlainText(session);
+  }
+}
+
+function readString(value: unknown, label: string, max: number): string {
+  if (typeof value !== 'string') {
+    throw new ExportFormatError(`${label} in this file is not text`);
+  }
+  if (value.length > max) {
+    throw new ExportFormatError(`${label} in this file is longer than ${max} characters`);
+  }
+  return value;
+}
+
+function readOptionalString(value: unknown, label: string, max: number): string | undefined {
+  return value === undefined || value === null ? undefined : readString(value, label, max);
+}
+
+function readTurn(value: unknown, index: number): Turn {
+  if (typeof value !== 'object' || value === null) {
+    throw new ExportFormatError(`Answer ${index + 1} in this file is incomplete`);
+  }
+  const { question, answer, source } = value as Partial<Turn>;
+  return {
+    question: readString(question, `Question ${index + 1}`, LIMITS.question),
+    answer: readString(answer, `Answer ${index + 1}`, LIMITS.answer),
+    ...(source && ANSWER_SOURCES.includes(source) ? { source } : {}),
+  };
+}
+
+function isAttachment(value: unknown): value is Attachment {
+  const attachment = value as Attachment;
+  return typeof attachment?.id === 'string'
+    && isAttachmentKind(attachment.kind)
+    && typeof attachment.name === 'string'
+    && attachment.name.length <= ATTACHMENT_LIMITS.name
+    && typeof attachment.summary === 'string'
+    && attachment.summary.length <= ATTACHMENT_LIMITS.summary
+    && (attachment.url === undefined || typeof attachment.url === 'string')
+    && typeof attachment.addedAt === 'string';
+}
+
+// Imports always get a fresh id so restoring never overwrites an existing session.
+// Every field is checked, because an imported session is saved and rendered straight away.
+export function parseSessionExport(text: string): Session {
+  let document: Partial<SessionExport>;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new ExportFormatError('The file is not valid JSON');
+  }
+
+  if (document?.schema !== EXPORT_SCHEMA) {
+    throw new ExportFormatError('The file is not a prompt builder session export');
+  }
+  if (document.version !== EXPORT_VERSION) {
+    throw new ExportFormatError(`Unsupported export version ${document.version}`);
+  }
+
+  const { session } = document;
+  if (typeof session !== 'object' || session === null || !Array.isArray(session.turns)) {
+    throw new ExportFormatError('The session in this file is incomplete');
+  }
+  if (session.turns.length > LIMITS.turns) {
+    throw new ExportFormatError(`The session in this file has more than ${LIMITS.turns} answers`);
+  }
+
+  const createdAt = readOptionalString(session.createdAt, 'The creation date', LIMITS.title);
+  if (createdAt !== undefined && Number.isNaN(Date.parse(createdAt))) {
+    throw new ExportFormatError('The creation date in this file is not a date');
+  }
+  const spec = session.spec ? parseAppSpec(session.spec) : null;
+  if (spec && !spec.success) {
+    throw new ExportFormatError('The spec in this file is invalid');
+  }
+
+  const fresh = createSession();
+  return normalizeSession({
+    ...fresh,
+    title: readString(session.title, 'The title', LIMITS.title),
+    createdAt: createdAt || fresh.createdAt,
+    turns: session.turns.map(readTurn),
+    currentQuestion: readOptionalString(session.currentQuestion, 'The current question', LIMITS.question)
+      || fresh.currentQuestion,
+    builtPrompt: readOptionalString(session.builtPrompt, 'The generated prompt', LIMITS.prompt) ?? null,
+    spec: spec?.data ?? fresh.spec,
+    templateId: readOptionalString(session.templateId, 'The template', LIMITS.title) ?? fresh.templateId,
+    strategyId: readOptionalString(session.strategyId, 'The interview strategy', LIMITS.title) ?? fresh.strategyId,
+    attachments: Array.isArray(session.attachments)
+      ? session.attachments.filter(isAttachment).slice(0, ATTACHMENT_LIMITS.perSession)
+      : [],
+  });
+}
+
+export function exportFileName(session: Session, format: ExportFormat): string {
+  const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+  return `${slug}.${EXPORT_FORMATS[format].extension}`;
+}
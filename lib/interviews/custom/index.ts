@@ -0,0 +1,5 @@
+import type { InterviewStrategy } from '../types';
+
+// Reaching `targetTurns` marks a session ready to build even if the spec still has gaps.
+// Saved sessions whose strategy is removed from this list switch to the thorough one when they load.
+export const customStrategies: InterviewStrategy[] = [];
@@ -0,0 +1,26 @@
+import { customStrategies } from './custom';
+import { nonTechnicalStrategy } from './nonTechnical';
+import { quickStrategy } from './quick';
+import { technicalStrategy } from './technical';
+import { thoroughStrategy } from './thorough';
+import type { InterviewStrategy } from './types';
+
+export * from './types';
+
+export const DEFAULT_STRATEGY_ID = thoroughStrategy.id;
+
+export const INTERVIEW_STRATEGIES: InterviewStrategy[] = [
+  quickStrategy,
+  thoroughStrategy,
+  technicalStrategy,
+  nonTechnicalStrategy,
+  ...customStrategies,
+];
+
+export function findStrategy(id: string): InterviewStrategy | undefined {
+  return INTERVIEW_STRATEGIES.find(strategy => strategy.id === id);
+}
+
+export function getStrategy(id: string | undefined): InterviewStrategy {
+  return (id && findStrategy(id)) || thoroughStrategy;
+}
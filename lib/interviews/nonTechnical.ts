@@ -0,0 +1,13 @@
+import type { InterviewStrategy } from './types';
+
+export const nonTechnicalStrategy: InterviewStrategy = {
+  id: 'non-technical',
+  name: 'Plain language',
+  description: 'For stakeholders without a technical background.',
+  systemPrompt:
+    'You help someone without a technical background describe an app they need. Ask about their work and goals, never about technology.',
+  tone: 'warm and plain; no jargon or acronyms',
+  maxQuestionWords: 12,
+  targetTurns: 8,
+  focusFields: ['appType', 'targetUsers', 'coreFeatures', 'dataEntities', 'stylingPreferences', 'targetPlatforms'],
+};
@@ -0,0 +1,12 @@
+import type { InterviewStrategy } from './types';
+
+export const quickStrategy: InterviewStrategy = {
+  id: 'quick',
+  name: 'Quick sketch',
+  description: 'Five questions for a rough first version.',
+  systemPrompt: 'You run a fast interview to sketch an app idea well enough to prototype it.',
+  tone: 'brisk and friendly',
+  maxQuestionWords: 8,
+  targetTurns: 5,
+  focusFields: ['appType', 'targetUsers', 'coreFeatures', 'dataEntities', 'stylingPreferences'],
+};
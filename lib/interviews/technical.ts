@@ -0,0 +1,12 @@
+import type { InterviewStrategy } from './types';
+
+export const technicalStrategy: InterviewStrategy = {
+  id: 'technical',
+  name: 'Technical architecture',
+  description: 'For developers: data model, auth, integrations and stack constraints.',
+  systemPrompt: 'You are a senior engineer scoping the architecture of a web app with another developer.',
+  tone: 'precise and technical; jargon is fine',
+  maxQuestionWords: 15,
+  targetTurns: 10,
+  focusFields: ['appType', 'dataEntities', 'authNeeds', 'integrations', 'constraints', 'targetPlatforms', 'coreFeatures'],
+};
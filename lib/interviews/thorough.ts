@@ -0,0 +1,22 @@
+import type { InterviewStrategy } from './types';
+
+export const thoroughStrategy: InterviewStrategy = {
+  id: 'thorough',
+  name: 'Thorough product interview',
+  description: 'Covers users, features, data, sign-in, platforms and constraints.',
+  systemPrompt: 'You are a product manager interviewing someone about the web app they want built.',
+  tone: 'curious and encouraging',
+  maxQuestionWords: 12,
+  targetTurns: 12,
+  focusFields: [
+    'appType',
+    'targetUsers',
+    'coreFeatures',
+    'dataEntities',
+    'targetPlatforms',
+    'authNeeds',
+    'stylingPreferences',
+    'integrations',
+    'constraints',
+  ],
+};
@@ -0,0 +1,15 @@
+import type { SpecField } from '@/lib/spec';
+
+export interface InterviewStrategy {
+  id: string;
+  name: string;
+  description: string;
+  // Who the interviewer is and what it is after; length, tone and focus are appended by the server.
+  systemPrompt: string;
+  tone: string;
+  maxQuestionWords: number;
+  // Roughly how many questions the interview should take; the session counts as ready once it gets there.
+  targetTurns: number;
+  // Spec areas to cover, in the order they should be asked about.
+  focusFields: SpecField[];
+}
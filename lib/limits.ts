@@ -0,0 +1,13 @@
+// Size limits shared by request validation and session import, so a session that
+// can be built in the app can always be exported, imported and shared again.
+export const LIMITS = {
+  title: 200,
+  question: 500,
+  answer: 4000,
+  turns: 100,
+  dismissed: 200,
+  // Pasted-in spec documents; about 10k tokens, which fits every allowlisted model's context.
+  document: 40000,
+  // A generated prompt; well above what the largest allowlisted completion can produce.
+  prompt: 20000,
+};
@@ -0,0 +1,141 @@
+import { parseSSE } from '@/lib/sse';
+import { isAbortError } from '@/lib/abort';
+import {
+  contentFilteredError,
+  errorKindForStatus,
+  LLMProviderError,
+  parseRetryAfter,
+  type ChatMessage,
+  type CompletionRequest,
+  type LLMProvider,
+  type ProviderErrorKind,
+} from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+// https://docs.anthropic.com/en/api/errors
+const ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  rate_limit_error: 'rate_limited',
+  overloaded_error: 'unavailable',
+  api_error: 'unavailable',
+  timeout_error: 'timeout',
+};
+
+function errorFromBody(text: string, status: number | null, retryAfter: number | null = null): LLMProviderError {
+  let type: string | undefined;
+  try {
+    type = JSON.parse(text)?.error?.type;
+  } catch {
+    // Gateways in front of the API may answer with plain text.
+  }
+  const kind = (type && ERROR_KINDS[type]) || (status ? errorKindForStatus(status) : 'unknown');
+  return new LLMProviderError(`Anthropic API error (${status ?? 'stream'}): ${text}`, kind, status, retryAfter);
+}
+
+interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+}
+
+// Images go in as base64 content blocks ahead of the text they belong to.
+function toAnthropicMessage({ role, content, images }: ChatMessage) {
+  if (!images?.length) return { role, content };
+  return {
+    role,
+    content: [
+      ...images.map(({ mediaType, data }) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: mediaType, data },
+      })),
+      { type: 'text', text: content },
+    ],
+  };
+}
+
+export function createAnthropicProvider({
+  apiKey,
+  baseURL = 'https://api.anthropic.com/v1',
+}: AnthropicProviderOptions): LLMProvider {
+  const send = async ({ model, messages, maxTokens, responseFormat, signal }: CompletionRequest, stream: boolean) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    // Anthropic has no JSON mode; prefilling the reply with "{" keeps it to a bare object.
+    const prefill = responseFormat === 'json' && !stream ? [{ role: 'assistant', content: '{' }] : [];
+    const response = await fetch(`${baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: [...messages.filter(m => m.role !== 'system').map(toAnthropicMessage), ...prefill],
+        max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+      signal,
+    }).catch(error => {
+      if (isAbortError(error)) throw error;
+      throw new LLMProviderError(`Could not reach the Anthropic API: ${error.message}`, 'unavailable');
+    });
+
+    if (!response.ok) {
+      throw errorFromBody(await response.text(), response.status, parseRetryAfter(response.headers.get('retry-after')));
+    }
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+
+    async complete(request) {
+      const response = await send(request, false);
+      const message = await response.json();
+      const content = (message.content ?? [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+
+      if (message.stop_reason === 'refusal') {
+        throw contentFilteredError();
+      }
+
+      return {
+        content: request.responseFormat === 'json' ? `{${content}` : content,
+        finishReason: message.stop_reason ?? null,
+        usage: message.usage
+          ? { promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens }
+          : undefined,
+      };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      if (!response.body) return;
+      // Input tokens arrive with message_start, output tokens with the final message_delta.
+      let promptTokens = 0;
+
+      for await (const message of parseSSE(response.body)) {
+        if (message.event === 'error') {
+          throw errorFromBody(message.data, null);
+        }
+        if (message.event === 'message_start') {
+          promptTokens = JSON.parse(message.data).message?.usage?.input_tokens ?? 0;
+          continue;
+        }
+        if (message.event === 'message_delta') {
+          const { delta, usage } = JSON.parse(message.data);
+          if (delta?.stop_reason === 'refusal') throw contentFilteredError();
+          if (usage) request.onUsage?.({ promptTokens, completionTokens: usage.output_tokens ?? 0 });
+          continue;
+        }
+        if (message.event !== 'content_block_delta') continue;
+
+        const { delta } = JSON.parse(message.data);
+        if (delta?.type === 'text_delta' && delta.text) yield delta.text;
+      }
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import type { CompletionRequest, ImageInput, LLMProvider } from './types';
+
+// One line per recorded completion in a JSONL file.
+export interface Fixture {
+  key: string;
+  messages: CompletionRequest['messages'];
+  responseFormat: 'text' | 'json';
+  content: string;
+}
+
+const imageDigest = ({ mediaType, data }: ImageInput) =>
+  `${mediaType}:${createHash('sha256').update(data).digest('hex').slice(0, 16)}`;
+
+// Leaves the model out so a session recorded against a real model replays under `mock`.
+// Images count by digest, which keeps keys short.
+export function fixtureKey({
+  messages,
+  responseFormat = 'text',
+}: Pick<CompletionRequest, 'messages' | 'responseFormat'>): string {
+  return JSON.stringify([
+    responseFormat,
+    messages.map(({ role, content, images }) =>
+      images?.length ? [role, content.trim(), images.map(imageDigest)] : [role, content.trim()],
+    ),
+  ]);
+}
+
+export function loadFixtures(path: string): Map<string, string> {
+  const fixtures = new Map<string, string>();
+  if (!existsSync(path)) return fixtures;
+
+  readFileSync(path, 'utf8').split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const fixture: Fixture = JSON.parse(line);
+      fixtures.set(fixture.key, fixture.content);
+    } catch {
+      console.warn(`Skipping malformed fixture on line ${index + 1} of ${path}`);
+    }
+  });
+  return fixtures;
+}
+
+// Appends every successful completion from `provider` to `path`, for replay with MOCK_FIXTURES.
+export function withRecording(provider: LLMProvider, path: string): LLMProvider {
+  const record = (request: CompletionRequest, content: string) => {
+    const fixture: Fixture = {
+      key: fixtureKey(request),
+      // The key already covers any images; their data would only bloat the file.
+      messages: request.messages.map(({ role, content }) => ({ role, content })),
+      responseFormat: request.responseFormat ?? 'text',
+      content,
+    };
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, `${JSON.stringify(fixture)}\n`);
+    } catch (error) {
+      console.error('Error recording fixture:', error);
+    }
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request) {
+      const result = await provider.complete(request);
+      record(request, result.content);
+      return result;
+    },
+
+    async *stream(request) {
+      let content = '';
+      for await (const delta of provider.stream(request)) {
+        content += delta;
+        yield delta;
+      }
+      record(request, content);
+    },
+  };
+}
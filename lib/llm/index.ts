@@ -0,0 +1,106 @@
+import { readNumber } from '@/lib/env';
+import { createAnthropicProvider } from './anthropic';
+import { withRecording } from './fixtures';
+import { createMockProvider, mockOptionsFromEnv } from './mock';
+import { getModelPolicy, type ModelPolicy } from './models';
+import { createOpenAIProvider } from './openai';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+import { LLMConfigError, type LLMProvider, type ProviderName } from './types';
+
+export * from './types';
+export type { ModelPolicy } from './models';
+export type { RetryPolicy } from './retry';
+
+export interface LLMConfig {
+  provider: ProviderName;
+  model: string;
+  policy: ModelPolicy;
+  retry: RetryPolicy;
+  // Used for requests that carry images; null when no configured model can read them.
+  visionModel: string | null;
+}
+
+export interface ResolvedLLM {
+  provider: LLMProvider;
+  model: string;
+  policy: ModelPolicy;
+  visionModel: string | null;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-haiku-20240307',
+  'openai-compatible': 'llama3',
+  mock: 'mock',
+};
+
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'openai') as ProviderName;
+  if (!Object.hasOwn(DEFAULT_MODELS, provider)) {
+    throw new LLMConfigError(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+
+  const model = env.LLM_MODEL || DEFAULT_MODELS[provider];
+  const policy = getModelPolicy(provider, model);
+  if (!policy) {
+    throw new LLMConfigError(`Model "${model}" is not on the ${provider} allowlist`);
+  }
+
+  const fallbackModel = env.LLM_FALLBACK_MODEL || undefined;
+  if (fallbackModel && !getModelPolicy(provider, fallbackModel)) {
+    throw new LLMConfigError(`Fallback model "${fallbackModel}" is not on the ${provider} allowlist`);
+  }
+
+  const visionModel = env.LLM_VISION_MODEL || (policy.vision ? model : null);
+  if (visionModel && !getModelPolicy(provider, visionModel)?.vision) {
+    throw new LLMConfigError(`Vision model "${visionModel}" is not a vision-capable model on the ${provider} allowlist`);
+  }
+
+  return { provider, model, policy, retry: readRetryPolicy(env, fallbackModel), visionModel };
+}
+
+function readRetryPolicy(env: NodeJS.ProcessEnv, fallbackModel: string | undefined): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: readNumber(env.LLM_MAX_RETRIES, DEFAULT_RETRY_POLICY.maxRetries, { integer: true }),
+    timeoutMs: readNumber(env.LLM_TIMEOUT_MS, DEFAULT_RETRY_POLICY.timeoutMs, { integer: true }),
+    fallbackModel,
+  };
+}
+
+export function createProvider(provider: ProviderName, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new LLMConfigError('OpenAI API key not configured');
+      }
+      return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY });
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new LLMConfigError('Anthropic API key not configured');
+      }
+      return createAnthropicProvider({ apiKey: env.ANTHROPIC_API_KEY, baseURL: env.ANTHROPIC_BASE_URL });
+    case 'openai-compatible':
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        // Local servers usually ignore the key, but the SDK requires one.
+        apiKey: env.LLM_API_KEY || 'not-needed',
+        baseURL: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      });
+    case 'mock':
+      return createMockProvider(mockOptionsFromEnv(env));
+  }
+}
+
+let cached: { key: string; provider: LLMProvider } | null = null;
+
+export function getProvider(): ResolvedLLM {
+  const { provider, model, policy, retry, visionModel } = getLLMConfig();
+  const key = JSON.stringify([provider, retry, process.env.LLM_RECORD_FIXTURES]);
+  if (cached?.key !== key) {
+    const recordTo = process.env.LLM_RECORD_FIXTURES;
+    const base = createProvider(provider);
+    cached = { key, provider: withRetry(recordTo ? withRecording(base, recordTo) : base, retry) };
+  }
+  return { provider: cached.provider, model, policy, visionModel };
+}
@@ -0,0 +1,314 @@
+import { readFileSync } from 'fs';
+import { abortError, sleep } from '@/lib/abort';
+import { createEmptySpec, type AppSpec } from '@/lib/spec';
+import { classifyTurn, type Topic } from '@/lib/topics';
+import { fixtureKey, loadFixtures } from './fixtures';
+import {
+  LLMConfigError,
+  LLMProviderError,
+  type CompletionRequest,
+  type ImageInput,
+  type LLMProvider,
+  type ProviderErrorKind,
+} from './types';
+
+const QUESTION_BANK = [
+  'Who will use this app day to day?',
+  'What is the one feature it must have?',
+  'What data does the app need to store?',
+  'Do users need accounts or sign-in?',
+  'Which devices should it work on?',
+  'How should the app look and feel?',
+  'Does it connect to any other services?',
+  'What would make the first version done?',
+];
+
+type MockResponder = (request: CompletionRequest) => string;
+
+export interface MockProviderOptions {
+  respond?: MockResponder;
+  respondWithJSON?: MockResponder;
+  // Changes which bank question each conversation gets, and the error-injection sequence.
+  seed?: string;
+  questions?: string[];
+  // Recorded completions, keyed by `fixtureKey`; a hit wins over the scripted responders.
+  fixtures?: Map<string, string>;
+  latencyMs?: number;
+  chunkDelayMs?: number;
+  // Share of calls, 0 to 1, that fail with `errorKind`.
+  errorRate?: number;
+  errorKind?: ProviderErrorKind;
+}
+
+const ERROR_KINDS: ProviderErrorKind[] = [
+  'rate_limited',
+  'quota_exceeded',
+  'timeout',
+  'content_filtered',
+  'unavailable',
+  'unknown',
+];
+
+const TOPIC_FIELDS: Record<Topic, keyof AppSpec> = {
+  purpose: 'appType',
+  users: 'targetUsers',
+  features: 'coreFeatures',
+  data: 'dataEntities',
+  auth: 'authNeeds',
+  ui: 'stylingPreferences',
+};
+
+// Stable across runs so offline tests can assert on exact output.
+function hash(value: string): number {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return result;
+}
+
+function questionBank(questions: string[], seed: string): MockResponder {
+  return ({ messages }) => {
+    const conversation = messages.map(m => `${m.role}:${m.content}`).join('\n');
+    return questions[hash(seed ? `${seed}\n${conversation}` : conversation) % questions.length];
+  };
+}
+
+// mulberry32: a tiny seeded generator, so injected failures happen on the same calls every run.
+function seededRandom(seed: string): () => number {
+  let state = hash(seed || 'mock');
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SUGGESTIONS: Record<Topic, string[]> = {
+  purpose: ['A task tracker for my team', 'An online store', 'A booking system', 'A personal journal'],
+  users: ['Just me', 'A small team at work', 'Customers of my business', 'Anyone on the web'],
+  features: ['Create and edit items', 'Search and filters', 'Notifications', 'Sharing with others'],
+  data: ['Users and their profiles', 'Orders and products', 'Notes and tags', 'Nothing stored'],
+  auth: ['No sign-in needed', 'Email and password', 'Sign in with Google', 'Invite-only accounts'],
+  ui: ['Clean and minimal', 'Bright and playful', 'Dark mode first', 'Match my brand colours'],
+};
+
+interface StructuredInput {
+  currentSpec?: AppSpec;
+  question?: string;
+  answer?: string;
+  answers?: { index: number; question: string; answer: string }[];
+  spec?: AppSpec;
+  document?: string;
+  // Attachment summaries: the file name, plus a text chunk or the chunk summaries to merge.
+  name?: string;
+  text?: string;
+  summaries?: string[];
+}
+
+const VAGUE_TERMS = ['fast', 'simple', 'easy', 'modern', 'user-friendly', 'intuitive', 'scalable', 'nice'];
+const NON_FUNCTIONAL = /performance|security|secure|privacy|accessib|uptime|scale/i;
+const CONTRADICTIONS: [RegExp, RegExp, string][] = [
+  [/offline/i, /real-?time|multiplayer|live updates/i, 'Offline-first conflicts with real-time features'],
+  [/no (sign-?in|login|accounts)/i, /profile|per-user|my account/i, 'No accounts, but per-user data'],
+];
+
+// Review requests carry the numbered answers; the findings come from fixed keyword rules.
+const respondWithReview = ({ answers = [] }: StructuredInput) => {
+  const issues: object[] = [];
+
+  for (const [left, right, title] of CONTRADICTIONS) {
+    const a = answers.find(turn => left.test(turn.answer));
+    const b = answers.find(turn => right.test(turn.answer));
+    if (a && b) {
+      issues.push({
+        kind: 'contradiction',
+        severity: 'high',
+        title,
+        detail: `Answer ${a.index + 1} and answer ${b.index + 1} pull in different directions.`,
+        turns: [a.index, b.index],
+        followUp: 'Which of these matters more for the first version?',
+      });
+    }
+  }
+
+  for (const turn of answers) {
+    const term = VAGUE_TERMS.find(word => new RegExp(`\\b${word}\\b`, 'i').test(turn.answer));
+    if (term) {
+      issues.push({
+        kind: 'vague',
+        severity: 'medium',
+        title: `"${term}" is open to interpretation`,
+        detail: `Answer ${turn.index + 1} says "${term}" without saying what that means in practice.`,
+        turns: [turn.index],
+        followUp: `What would "${term}" look like in practice?`,
+      });
+    }
+  }
+
+  if (answers.length > 0 && !answers.some(turn => NON_FUNCTIONAL.test(turn.answer))) {
+    issues.push({
+      kind: 'missing-requirement',
+      severity: 'low',
+      title: 'No non-functional requirements',
+      detail: 'Nothing was said about performance, security, privacy or accessibility.',
+      turns: [],
+      followUp: 'Are there any security, privacy or accessibility requirements?',
+    });
+  }
+
+  return JSON.stringify({ issues });
+};
+
+// Suggestion requests carry a question but no answer.
+const respondWithSuggestions = ({ question = '' }: StructuredInput) => {
+  const topic = classifyTurn({ question, answer: '' }) ?? 'purpose';
+  return JSON.stringify({ suggestions: SUGGESTIONS[topic] });
+};
+
+function updateSpec(current: AppSpec | undefined, question: string, answer: string): AppSpec {
+  const spec = { ...createEmptySpec(), ...current };
+  const topic = classifyTurn({ question, answer });
+  const field = topic ? TOPIC_FIELDS[topic] : 'appType';
+  const value = spec[field];
+
+  if (Array.isArray(value)) {
+    (spec[field] as string[]) = [...value, answer.trim()];
+  } else if (!value) {
+    (spec[field] as string) = answer.trim();
+  }
+  return spec;
+}
+
+const respondWithSpec = ({ currentSpec, question = '', answer = '' }: StructuredInput) =>
+  JSON.stringify(updateSpec(currentSpec, question, answer));
+
+// Imported documents are read line by line as if each line answered a question; the opening lines are the summary.
+const respondWithDocument = ({ currentSpec, document = '' }: StructuredInput) => {
+  const lines = document
+    .split('\n')
+    .map(line => line.replace(/^[\s#>*\-\d.]+/, '').trim())
+    .filter(Boolean);
+  const spec = lines.reduce((updated, line) => updateSpec(updated, '', line), currentSpec ?? createEmptySpec());
+  const summary = lines.slice(0, 3).map(line => (/[.!?]$/.test(line) ? line : `${line}.`)).join(' ');
+  return JSON.stringify({ summary, spec });
+};
+
+const firstSentences = (text: string, count: number) =>
+  (text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]?/g) ?? []).slice(0, count).join('').trim();
+
+// Images are described from their metadata; text files by their opening sentences.
+const respondWithAttachment = ({ name = 'attachment', text, summaries }: StructuredInput, images: ImageInput[]) => {
+  if (images.length) {
+    const [{ mediaType, data }] = images;
+    const kilobytes = Math.round((data.length * 3) / 4 / 1024);
+    const format = mediaType.replace('image/', '').toUpperCase();
+    return JSON.stringify({
+      summary: `"${name}": a ${kilobytes} KB ${format} image with a header, a content area and a call-to-action button.`,
+    });
+  }
+  const summary = summaries ? summaries.join(' ') : firstSentences(text ?? '', 2) || `"${name}" is empty.`;
+  return JSON.stringify({ summary });
+};
+
+// Mirrors the spec-extraction, suggestion, review, import and attachment contracts with heuristics instead of a model.
+const respondWithStructured: MockResponder = ({ messages }) => {
+  let input: StructuredInput;
+  try {
+    input = JSON.parse(messages[messages.length - 1]?.content ?? '');
+  } catch {
+    return '{}';
+  }
+  const images = messages[messages.length - 1]?.images ?? [];
+  if (input.answers) return respondWithReview(input);
+  if (input.document !== undefined) return respondWithDocument(input);
+  if (images.length || input.text !== undefined || input.summaries) return respondWithAttachment(input, images);
+  return input.answer === undefined ? respondWithSuggestions(input) : respondWithSpec(input);
+};
+
+export function createMockProvider({
+  seed = '',
+  questions = QUESTION_BANK,
+  respond = questionBank(questions, seed),
+  respondWithJSON = respondWithStructured,
+  fixtures,
+  latencyMs = 0,
+  chunkDelayMs = 0,
+  errorRate = 0,
+  errorKind = 'unavailable',
+}: MockProviderOptions = {}): LLMProvider {
+  const random = seededRandom(seed);
+
+  // Waits out the simulated latency, then maybe fails, then answers from fixtures or the scripts.
+  const answer = async (request: CompletionRequest) => {
+    if (request.signal?.aborted) throw abortError();
+    if (latencyMs > 0) await sleep(latencyMs, request.signal);
+    if (errorRate > 0 && random() < errorRate) {
+      const retryAfter = errorKind === 'rate_limited' ? 1 : null;
+      throw new LLMProviderError(`Injected mock failure (${errorKind})`, errorKind, null, retryAfter);
+    }
+
+    const recorded = fixtures?.get(fixtureKey(request));
+    if (recorded !== undefined) return recorded;
+    return request.responseFormat === 'json' ? respondWithJSON(request) : respond(request);
+  };
+
+  return {
+    name: 'mock',
+
+    async complete(request) {
+      return { content: await answer(request), finishReason: 'stop' };
+    },
+
+    async *stream(request) {
+      const words = (await answer(request)).split(/(?<= )/);
+      for (const word of words) {
+        if (request.signal?.aborted) throw abortError();
+        if (chunkDelayMs > 0) await sleep(chunkDelayMs, request.signal);
+        yield word;
+      }
+    },
+  };
+}
+
+export function mockOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MockProviderOptions {
+  const number = (name: string, max = Infinity) => {
+    const value = env[name];
+    if (!value) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > max) {
+      throw new LLMConfigError(`${name} must be a number between 0 and ${max}`);
+    }
+    return parsed;
+  };
+
+  const errorKind = env.MOCK_ERROR_KIND as ProviderErrorKind | undefined;
+  if (errorKind && !ERROR_KINDS.includes(errorKind)) {
+    throw new LLMConfigError(`MOCK_ERROR_KIND must be one of ${ERROR_KINDS.join(', ')}`);
+  }
+
+  let questions: string[] | undefined;
+  if (env.MOCK_QUESTIONS_FILE) {
+    try {
+      questions = JSON.parse(readFileSync(env.MOCK_QUESTIONS_FILE, 'utf8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new LLMConfigError(`Could not read MOCK_QUESTIONS_FILE: ${reason}`);
+    }
+    if (!Array.isArray(questions) || !questions.length || !questions.every(q => typeof q === 'string')) {
+      throw new LLMConfigError('MOCK_QUESTIONS_FILE must contain a non-empty JSON array of strings');
+    }
+  }
+
+  return {
+    seed: env.MOCK_SEED,
+    questions,
+    fixtures: env.MOCK_FIXTURES ? loadFixtures(env.MOCK_FIXTURES) : undefined,
+    latencyMs: number('MOCK_LATENCY_MS'),
+    chunkDelayMs: number('MOCK_CHUNK_DELAY_MS'),
+    errorRate: number('MOCK_ERROR_RATE', 1),
+    errorKind,
+  };
+}
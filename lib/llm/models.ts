@@ -0,0 +1,35 @@
+import type { ProviderName } from './types';
+
+export interface ModelPolicy {
+  maxTokens: number;
+  // Accepts images in user messages.
+  vision?: boolean;
+}
+
+// Only these models may be configured through LLM_MODEL; the cap bounds every request's max_tokens.
+export const MODEL_ALLOWLIST: Record<ProviderName, Record<string, ModelPolicy>> = {
+  openai: {
+    'gpt-3.5-turbo': { maxTokens: 1000 },
+    'gpt-4o-mini': { maxTokens: 1500, vision: true },
+    'gpt-4o': { maxTokens: 1500, vision: true },
+  },
+  anthropic: {
+    'claude-3-haiku-20240307': { maxTokens: 1500, vision: true },
+    'claude-3-5-sonnet-20240620': { maxTokens: 1500, vision: true },
+  },
+  'openai-compatible': {
+    llama3: { maxTokens: 1000 },
+    'llama3.1': { maxTokens: 1000 },
+    mistral: { maxTokens: 1000 },
+    'qwen2.5': { maxTokens: 1000 },
+    llava: { maxTokens: 1000, vision: true },
+  },
+  mock: {
+    mock: { maxTokens: 1000, vision: true },
+  },
+};
+
+export function getModelPolicy(provider: ProviderName, model: string): ModelPolicy | undefined {
+  const models = MODEL_ALLOWLIST[provider];
+  return Object.hasOwn(models, model) ? models[model] : undefined;
+}
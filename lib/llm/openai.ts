@@ -0,0 +1,107 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  contentFilteredError,
+  errorKindForStatus,
+  LLMProviderError,
+  parseRetryAfter,
+  type ChatMessage,
+  type CompletionRequest,
+  type LLMProvider,
+  type ProviderErrorKind,
+} from './types';
+
+interface OpenAIProviderOptions {
+  name?: string;
+  apiKey: string;
+  baseURL?: string;
+}
+
+const CONTENT_FILTER_CODES = ['content_filter', 'content_policy_violation'];
+
+function toProviderError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError) return error;
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new LLMProviderError(error.message, 'timeout');
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LLMProviderError(error.message, 'unavailable');
+  }
+  if (error instanceof OpenAI.APIError && error.status) {
+    let kind: ProviderErrorKind = errorKindForStatus(error.status);
+    if (error.code === 'insufficient_quota') kind = 'quota_exceeded';
+    if (error.code && CONTENT_FILTER_CODES.includes(error.code)) kind = 'content_filtered';
+    return new LLMProviderError(error.message, kind, error.status, parseRetryAfter(error.headers?.['retry-after']));
+  }
+  return error;
+}
+
+// Images become content parts next to the text; every other message keeps the plain string form.
+function toOpenAIMessage({ role, content, images }: ChatMessage): ChatCompletionMessageParam {
+  if (role !== 'user' || !images?.length) return { role, content };
+  return {
+    role,
+    content: [
+      { type: 'text', text: content },
+      ...images.map(({ mediaType, data }) => ({
+        type: 'image_url' as const,
+        image_url: { url: `data:${mediaType};base64,${data}` },
+      })),
+    ],
+  };
+}
+
+// Also backs OpenAI-compatible servers (Ollama, llama.cpp, vLLM) through `baseURL`.
+export function createOpenAIProvider({ name = 'openai', apiKey, baseURL }: OpenAIProviderOptions): LLMProvider {
+  // Retries and timeouts are handled by `withRetry`, so the SDK's own are turned off.
+  const client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+
+  return {
+    name,
+
+    async complete({ model, messages, maxTokens, responseFormat, signal }: CompletionRequest) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: messages.map(toOpenAIMessage),
+        max_tokens: maxTokens,
+        response_format: responseFormat === 'json' ? { type: 'json_object' } : undefined,
+      }, { signal }).catch(error => {
+        throw toProviderError(error);
+      });
+      const choice = completion.choices[0];
+      if (choice?.finish_reason === 'content_filter') throw contentFilteredError();
+
+      return {
+        content: choice?.message?.content ?? '',
+        finishReason: choice?.finish_reason ?? null,
+        usage: completion.usage
+          ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    async *stream({ model, messages, maxTokens, signal, onUsage }: CompletionRequest) {
+      try {
+        const completion = await client.chat.completions.create({
+          model,
+          messages: messages.map(toOpenAIMessage),
+          max_tokens: maxTokens,
+          stream: true,
+          // Not every OpenAI-compatible server understands this, so only ask OpenAI itself.
+          stream_options: name === 'openai' ? { include_usage: true } : undefined,
+        }, { signal });
+
+        for await (const chunk of completion) {
+          if (chunk.usage) {
+            onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+          }
+          const choice = chunk.choices[0];
+          if (choice?.finish_reason === 'content_filter') throw contentFilteredError();
+          if (choice?.delta?.content) yield choice.delta.content;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
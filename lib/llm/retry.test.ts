@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { abortError } from '@/lib/abort';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+import { LLMProviderError, type CompletionRequest, type LLMProvider } from './types';
+
+// Fails with each queued error in turn, then answers with the model it was called with.
+function stubProvider(failures: LLMProviderError[], { dropMidStream = false } = {}) {
+  const models: string[] = [];
+  const next = (request: CompletionRequest) => {
+    models.push(request.model);
+    const error = failures.shift();
+    if (error) throw error;
+  };
+  const provider: LLMProvider = {
+    name: 'stub',
+    async complete(request) {
+      next(request);
+      return { content: `from ${request.model}`, finishReason: 'stop' };
+    },
+    async *stream(request) {
+      next(request);
+      yield 'a';
+      if (dropMidStream) throw new LLMProviderError('Dropped mid-stream', 'unavailable');
+      yield 'b';
+    },
+  };
+  return { provider, models };
+}
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({ ...DEFAULT_RETRY_POLICY, ...overrides });
+const request: CompletionRequest = { model: 'primary', messages: [{ role: 'user', content: 'Hi' }] };
+const unavailable = () => new LLMProviderError('Service unavailable', 'unavailable', 503);
+
+describe('withRetry', () => {
+  it('retries retryable failures with backoff', async () => {
+    const { provider, models } = stubProvider([unavailable(), unavailable()]);
+    const delays: number[] = [];
+    const retrying = withRetry(provider, policy({ maxRetries: 2 }), {
+      sleep: async ms => void delays.push(ms),
+      random: () => 1,
+    });
+
+    expect(await retrying.complete(request)).toMatchObject({ content: 'from primary' });
+    expect(models).toEqual(['primary', 'primary', 'primary']);
+    expect(delays).toEqual([500, 1000]);
+  });
+
+  it('falls back to the fallback model once the primary is out of retries', async () => {
+    const { provider, models } = stubProvider([unavailable(), unavailable()]);
+    const retrying = withRetry(provider, policy({ maxRetries: 1, fallbackModel: 'backup' }), { sleep: async () => {} });
+
+    expect(await retrying.complete(request)).toMatchObject({ content: 'from backup' });
+    expect(models).toEqual(['primary', 'primary', 'backup']);
+  });
+
+  it('keeps image requests on the vision model instead of falling back', async () => {
+    const { provider, models } = stubProvider([unavailable(), unavailable()]);
+    const retrying = withRetry(provider, policy({ maxRetries: 1, fallbackModel: 'backup' }), { sleep: async () => {} });
+    const withImage: CompletionRequest = {
+      model: 'vision',
+      messages: [{ role: 'user', content: 'What is this?', images: [{ mediaType: 'image/png', data: 'AAAA' }] }],
+    };
+
+    await expect(retrying.complete(withImage)).rejects.toMatchObject({ kind: 'unavailable' });
+    expect(models).toEqual(['vision', 'vision']);
+  });
+
+  it('gives up with the last error when every attempt fails', async () => {
+    const { provider, models } = stubProvider([unavailable(), unavailable(), unavailable()]);
+    const retrying = withRetry(provider, policy({ maxRetries: 1, fallbackModel: 'backup' }), { sleep: async () => {} });
+
+    await expect(retrying.complete(request)).rejects.toMatchObject({ kind: 'unavailable' });
+    expect(models).toEqual(['primary', 'primary', 'backup']);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const { provider, models } = stubProvider([new LLMProviderError('Quota used up', 'quota_exceeded', 429)]);
+    const retrying = withRetry(provider, policy({ fallbackModel: 'backup' }), { sleep: async () => {} });
+
+    await expect(retrying.complete(request)).rejects.toMatchObject({ kind: 'quota_exceeded' });
+    expect(models).toEqual(['primary']);
+  });
+
+  it('gives up when Retry-After asks for longer than the backoff cap', async () => {
+    const { provider, models } = stubProvider([new LLMProviderError('Slow down', 'rate_limited', 429, 60)]);
+    const retrying = withRetry(provider, policy(), { sleep: async () => {} });
+
+    await expect(retrying.complete(request)).rejects.toMatchObject({ kind: 'rate_limited' });
+    expect(models).toEqual(['primary']);
+  });
+
+  it('retries a stream that fails before its first chunk but not one that fails midway', async () => {
+    const before = stubProvider([unavailable()]);
+    const chunks: string[] = [];
+    for await (const chunk of withRetry(before.provider, policy(), { sleep: async () => {} }).stream(request)) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(['a', 'b']);
+    expect(before.models).toEqual(['primary', 'primary']);
+
+    const midway = stubProvider([], { dropMidStream: true });
+    const received: string[] = [];
+    const consume = async () => {
+      for await (const chunk of withRetry(midway.provider, policy(), { sleep: async () => {} }).stream(request)) {
+        received.push(chunk);
+      }
+    };
+    await expect(consume()).rejects.toThrow('Dropped mid-stream');
+    expect(received).toEqual(['a']);
+    expect(midway.models).toEqual(['primary']);
+  });
+
+  it('turns a stalled attempt into a timeout and retries it', async () => {
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: 'stub',
+      complete: request =>
+        new Promise((resolve, reject) => {
+          if (++calls > 1) return resolve({ content: 'ok', finishReason: 'stop' });
+          request.signal?.addEventListener('abort', () => reject(abortError()));
+        }),
+      stream: () => {
+        throw new Error('unused');
+      },
+    };
+    const retrying = withRetry(provider, policy({ timeoutMs: 5 }), { sleep: async () => {} });
+
+    expect(await retrying.complete(request)).toMatchObject({ content: 'ok' });
+    expect(calls).toBe(2);
+  });
+});
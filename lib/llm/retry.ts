@@ -0,0 +1,145 @@
+import { isAbortError, sleep } from '@/lib/abort';
+import { LLMProviderError, type CompletionRequest, type LLMProvider, type ProviderErrorKind } from './types';
+
+export interface RetryPolicy {
+  // Retries after the first attempt, so `maxRetries: 2` makes up to three calls to the primary model.
+  maxRetries: number;
+  // Per attempt; for streams, the longest gap allowed between chunks.
+  timeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Tried once after the primary model has used up its retries; never for requests with images,
+  // which were routed to the vision model and would lose their images on a text-only fallback.
+  fallbackModel?: string;
+}
+
+export interface RetryHooks {
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+  onRetry?: (info: { attempt: number; model: string; delayMs: number; error: LLMProviderError }) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  timeoutMs: 30_000,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limited', 'timeout', 'unavailable'];
+
+export function isRetryable(error: unknown): error is LLMProviderError {
+  return error instanceof LLMProviderError && RETRYABLE_KINDS.includes(error.kind);
+}
+
+// Full jitter: a random delay up to the exponential cap, so clients that failed together don't retry together.
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  return Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+}
+
+// An abort signal for one attempt: fires when the caller aborts or the attempt goes quiet for `timeoutMs`.
+function attemptSignal(parent: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  const touch = () => {
+    clearTimeout(timer);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    }
+  };
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    // Turns the abort caused by our own timer into a retryable timeout; caller aborts pass through.
+    translate(error: unknown): unknown {
+      return timedOut && isAbortError(error)
+        ? new LLMProviderError(`No response within ${timeoutMs}ms`, 'timeout')
+        : error;
+    },
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+export function withRetry(provider: LLMProvider, policy: RetryPolicy, hooks: RetryHooks = {}): LLMProvider {
+  const wait = hooks.sleep ?? sleep;
+  const random = hooks.random ?? Math.random;
+
+  const models = (request: CompletionRequest) => {
+    const { fallbackModel } = policy;
+    const hasImages = request.messages.some(message => message.images?.length);
+    return [
+      ...Array<string>(policy.maxRetries + 1).fill(request.model),
+      ...(fallbackModel && fallbackModel !== request.model && !hasImages ? [fallbackModel] : []),
+    ];
+  };
+
+  // Decides whether to go again after `error`; throws when it shouldn't.
+  const beforeRetry = async (error: unknown, attempt: number, plan: string[], signal?: AbortSignal) => {
+    if (signal?.aborted || isAbortError(error) || !isRetryable(error) || attempt + 1 >= plan.length) {
+      throw error;
+    }
+
+    const delayMs = plan[attempt + 1] === plan[attempt] ? backoffDelay(attempt, policy, random) : 0;
+    // Honour Retry-After, but don't hold the user's request for longer than the backoff cap.
+    const retryAfterMs = (error.retryAfter ?? 0) * 1000;
+    if (retryAfterMs > policy.maxDelayMs) throw error;
+
+    const waitMs = Math.max(delayMs, retryAfterMs);
+    hooks.onRetry?.({ attempt: attempt + 1, model: plan[attempt + 1], delayMs: waitMs, error });
+    await wait(waitMs, signal);
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request) {
+      const plan = models(request);
+      for (let attempt = 0; ; attempt++) {
+        const scope = attemptSignal(request.signal, policy.timeoutMs);
+        try {
+          return await provider.complete({ ...request, model: plan[attempt], signal: scope.signal });
+        } catch (error) {
+          await beforeRetry(scope.translate(error), attempt, plan, request.signal);
+        } finally {
+          scope.dispose();
+        }
+      }
+    },
+
+    async *stream(request) {
+      const plan = models(request);
+      for (let attempt = 0; ; attempt++) {
+        const scope = attemptSignal(request.signal, policy.timeoutMs);
+        let started = false;
+        try {
+          for await (const delta of provider.stream({ ...request, model: plan[attempt], signal: scope.signal })) {
+            started = true;
+            scope.touch();
+            yield delta;
+          }
+          return;
+        } catch (error) {
+          const translated = scope.translate(error);
+          // Once text has reached the caller a retry would repeat it, so mid-stream failures are final.
+          if (started) throw translated;
+          await beforeRetry(translated, attempt, plan, request.signal);
+        } finally {
+          scope.dispose();
+        }
+      }
+    },
+  };
+}
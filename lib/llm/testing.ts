@@ -0,0 +1,8 @@
+import type { ResolvedLLM } from '.';
+import { createMockProvider } from './mock';
+import type { LLMProvider } from './types';
+
+// What the routes get from getProvider(), around the mock provider by default, for tests that call the lib/api helpers.
+export function testLLM(provider: LLMProvider = createMockProvider(), overrides: Partial<ResolvedLLM> = {}): ResolvedLLM {
+  return { provider, model: 'mock', policy: { maxTokens: 1000 }, visionModel: null, ...overrides };
+}
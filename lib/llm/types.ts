@@ -0,0 +1,88 @@
+export type ProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+// A base64-encoded image, e.g. a screenshot the user attached.
+export interface ImageInput {
+  mediaType: string;
+  data: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Only sent on user messages, and only to models whose policy allows vision.
+  images?: ImageInput[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  // Called by `stream()` once the backend reports token counts, which it only does at the end.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface CompletionResult {
+  content: string;
+  finishReason: string | null;
+  // Left out by backends that don't report token counts.
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+export type ProviderErrorKind =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'timeout'
+  | 'content_filtered'
+  | 'unavailable'
+  | 'unknown';
+
+// Providers translate their own failures into this so callers can react without knowing the backend.
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ProviderErrorKind,
+    readonly status: number | null = null,
+    readonly retryAfter: number | null = null,
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export function contentFilteredError(): LLMProviderError {
+  return new LLMProviderError('The response was blocked by the content filter', 'content_filtered');
+}
+
+export function errorKindForStatus(status: number): ProviderErrorKind {
+  if (status === 429) return 'rate_limited';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+}
+
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds) : null;
+}
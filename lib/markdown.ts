@@ -0,0 +1,80 @@
+// The Markdown subset answers are previewed with: headings, lists, code blocks and paragraphs,
+// with bold, italic and inline code inside them. Anything else shows as plain text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'code'; text: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code'; text: string }
+  | { type: 'paragraph'; content: MarkdownInline[] };
+
+// Underscores only count at word boundaries, so snake_case stays as typed.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|(?<!\w)__[^_]+__(?!\w)|\*[^*\s][^*]*\*|(?<!\w)_[^_\s][^_]*_(?!\w)|`[^`]+`)/;
+
+export function parseInline(text: string): MarkdownInline[] {
+  return text
+    .split(INLINE_PATTERN)
+    .filter(Boolean)
+    .map(part => {
+      if (/^(\*\*|__).+\1$/.test(part)) return { type: 'strong', text: part.slice(2, -2) };
+      if (/^`.+`$/.test(part)) return { type: 'code', text: part.slice(1, -1) };
+      if (/^([*_]).+\1$/.test(part)) return { type: 'em', text: part.slice(1, -1) };
+      return { type: 'text', text: part };
+    });
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(parseInline(item[2]));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInline(item[2])] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
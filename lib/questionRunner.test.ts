@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDebouncer, createQuestionRunner, type RunContext } from './questionRunner';
+
+// A request that streams after `firstOutputMs` and finishes after `totalMs`, like a streamed question.
+interface Run {
+  input: string;
+  context: RunContext;
+  aborted: boolean;
+  completed: boolean;
+}
+
+function fakeRequests({ firstOutputMs = 100, totalMs = 300 } = {}) {
+  const runs: Run[] = [];
+  const execute = (input: string, context: RunContext) => new Promise<void>((resolve, reject) => {
+    const run: Run = { input, context, aborted: false, completed: false };
+    runs.push(run);
+    const output = setTimeout(() => context.markCommitted(), firstOutputMs);
+    const done = setTimeout(() => {
+      run.completed = true;
+      resolve();
+    }, totalMs);
+    context.signal.addEventListener('abort', () => {
+      run.aborted = true;
+      clearTimeout(output);
+      clearTimeout(done);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+  return { runs, execute };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createDebouncer', () => {
+  it('fires once with the latest input after the delay', () => {
+    const fire = vi.fn();
+    const debouncer = createDebouncer<string>(fire);
+
+    debouncer.schedule('I', 1000);
+    vi.advanceTimersByTime(600);
+    debouncer.schedule('I want', 1000);
+    vi.advanceTimersByTime(999);
+    expect(fire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(fire).toHaveBeenCalledTimes(1);
+    expect(fire).toHaveBeenCalledWith('I want');
+  });
+
+  it('lets a shorter delay replace a longer one', () => {
+    const fire = vi.fn();
+    const debouncer = createDebouncer<string>(fire);
+
+    debouncer.schedule('A blog', 1000);
+    debouncer.schedule('A blog.', 0);
+    vi.advanceTimersByTime(0);
+
+    expect(fire).toHaveBeenCalledWith('A blog.');
+    vi.advanceTimersByTime(1000);
+    expect(fire).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not fire after cancel', () => {
+    const fire = vi.fn();
+    const debouncer = createDebouncer<string>(fire);
+
+    debouncer.schedule('A blog', 500);
+    debouncer.cancel();
+    vi.advanceTimersByTime(1000);
+
+    expect(fire).not.toHaveBeenCalled();
+  });
+});
+
+describe('createQuestionRunner', () => {
+  it('runs a single request to completion', async () => {
+    const { runs, execute } = fakeRequests();
+    const runner = createQuestionRunner(execute);
+
+    runner.submit('A blog');
+    expect(runner.isBusy()).toBe(true);
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].completed).toBe(true);
+    expect(runner.isBusy()).toBe(false);
+  });
+
+  it('aborts a request that has not committed when new input arrives', async () => {
+    const { runs, execute } = fakeRequests();
+    const runner = createQuestionRunner(execute);
+
+    runner.submit('A blog');
+    await vi.advanceTimersByTimeAsync(50);
+    runner.submit('A blog for recipes');
+
+    expect(runs[0].aborted).toBe(true);
+    expect(runs[0].context.isLatest()).toBe(false);
+    expect(runs[1].input).toBe('A blog for recipes');
+    expect(runs[1].context.isLatest()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(runs[1].completed).toBe(true);
+    expect(runs).toHaveLength(2);
+  });
+
+  it('queues input that arrives after commit and keeps only the newest', async () => {
+    const { runs, execute } = fakeRequests();
+    const runner = createQuestionRunner(execute);
+
+    runner.submit('A blog');
+    await vi.advanceTimersByTimeAsync(150);
+    runner.submit('Home cooks');
+    runner.submit('Home cooks and chefs');
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(150);
+    expect(runs[0].completed).toBe(true);
+    expect(runs.map(run => run.input)).toEqual(['A blog', 'Home cooks and chefs']);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(runs[1].completed).toBe(true);
+    expect(runner.isBusy()).toBe(false);
+  });
+
+  it('starts queued input after a committed request fails', async () => {
+    const runs: string[] = [];
+    const runner = createQuestionRunner<string>(async (input, { markCommitted }) => {
+      runs.push(input);
+      markCommitted();
+      if (input === 'first') throw new Error('Upstream failed');
+    });
+
+    runner.submit('first');
+    runner.submit('second');
+    await vi.runAllTimersAsync();
+
+    expect(runs).toEqual(['first', 'second']);
+  });
+
+  it('cancel aborts the running request and drops the queue', async () => {
+    const { runs, execute } = fakeRequests();
+    const runner = createQuestionRunner(execute);
+
+    runner.submit('A blog');
+    await vi.advanceTimersByTimeAsync(150);
+    runner.submit('Queued');
+    runner.cancel();
+
+    expect(runs[0].aborted).toBe(true);
+    expect(runner.isBusy()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(runs).toHaveLength(1);
+  });
+
+  it('ignores a late commit from a superseded request', async () => {
+    const contexts: RunContext[] = [];
+    const runner = createQuestionRunner<string>(async (_input, context) => {
+      contexts.push(context);
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    runner.submit('old');
+    runner.submit('new');
+    contexts[0].markCommitted();
+    runner.submit('newest');
+
+    // "new" never committed, so "newest" replaced it instead of queueing.
+    expect(contexts).toHaveLength(3);
+    expect(contexts[1].signal.aborted).toBe(true);
+  });
+});
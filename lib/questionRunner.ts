@@ -0,0 +1,104 @@
+export interface RunContext {
+  signal: AbortSignal;
+  isLatest: () => boolean;
+  // Called once output starts reaching the user; from then on new input waits its turn.
+  markCommitted: () => void;
+}
+
+export interface QuestionRunner<T> {
+  submit(input: T): void;
+  cancel(): void;
+  isBusy(): boolean;
+}
+
+type Phase = 'idle' | 'pending' | 'committed';
+
+// Runs one request at a time. New input supersedes (aborts) a request that has not
+// committed yet; input that arrives after commit is queued, and only the newest queued
+// input survives.
+export function createQuestionRunner<T>(
+  execute: (input: T, context: RunContext) => Promise<void>,
+): QuestionRunner<T> {
+  let sequence = 0;
+  let phase: Phase = 'idle';
+  let controller: AbortController | null = null;
+  let queued: { input: T } | null = null;
+
+  const start = (input: T) => {
+    const id = ++sequence;
+    const current = new AbortController();
+    controller = current;
+    phase = 'pending';
+
+    const context: RunContext = {
+      signal: current.signal,
+      isLatest: () => id === sequence,
+      markCommitted: () => {
+        if (id === sequence) phase = 'committed';
+      },
+    };
+
+    const finish = () => {
+      if (id !== sequence) return;
+      phase = 'idle';
+      controller = null;
+      if (queued) {
+        const next = queued.input;
+        queued = null;
+        start(next);
+      }
+    };
+
+    execute(input, context).then(finish, finish);
+  };
+
+  return {
+    submit(input) {
+      if (phase === 'committed') {
+        queued = { input };
+        return;
+      }
+      controller?.abort();
+      start(input);
+    },
+
+    cancel() {
+      sequence++;
+      queued = null;
+      phase = 'idle';
+      controller?.abort();
+      controller = null;
+    },
+
+    isBusy() {
+      return phase !== 'idle';
+    },
+  };
+}
+
+export interface Debouncer<T> {
+  // Replaces whatever was scheduled before; a delay of 0 still waits for the next tick.
+  schedule(input: T, delay: number): void;
+  cancel(): void;
+}
+
+// Holds typed input back until the user pauses, so only the last keystroke reaches `fire`.
+export function createDebouncer<T>(fire: (input: T) => void): Debouncer<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    schedule(input, delay) {
+      cancel();
+      timer = setTimeout(() => {
+        timer = null;
+        fire(input);
+      }, delay);
+    },
+    cancel,
+  };
+}
@@ -0,0 +1,76 @@
+// The /api/review contract, shared by the route and the client.
+export type ReviewIssueKind = 'contradiction' | 'vague' | 'missing-requirement' | 'scope';
+export type ReviewSeverity = 'high' | 'medium' | 'low';
+
+export const REVIEW_ISSUE_KINDS: Record<ReviewIssueKind, string> = {
+  contradiction: 'Contradiction',
+  vague: 'Vague wording',
+  'missing-requirement': 'Missing requirement',
+  scope: 'Unrealistic scope',
+};
+
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['high', 'medium', 'low'];
+
+export interface ReviewIssue {
+  // Derived from kind and title, so the same finding keeps its id across review runs.
+  id: string;
+  kind: ReviewIssueKind;
+  severity: ReviewSeverity;
+  title: string;
+  detail: string;
+  // Zero-based indexes of the answers involved.
+  turns: number[];
+  // A question that resolves the issue when the user answers it.
+  followUp: string;
+}
+
+export interface ReviewResponse {
+  issues: ReviewIssue[];
+}
+
+const MAX_ISSUES = 10;
+const MAX_LENGTH = 300;
+
+function hash(value: string): string {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return result.toString(36);
+}
+
+export function reviewIssueId(kind: ReviewIssueKind, title: string): string {
+  return `${kind}-${hash(title.trim().toLowerCase())}`;
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_LENGTH) : null;
+}
+
+// Lenient on purpose: malformed entries from the model are dropped rather than failing the whole review.
+export function parseReviewIssues(value: unknown, turnCount: number): ReviewIssue[] {
+  const raw = (value as { issues?: unknown } | null)?.issues;
+  if (!Array.isArray(raw)) return [];
+
+  const issues: ReviewIssue[] = [];
+  for (const item of raw) {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const kind = entry.kind as ReviewIssueKind;
+    const severity = entry.severity as ReviewSeverity;
+    const title = readText(entry.title);
+    const followUp = readText(entry.followUp);
+    if (!Object.hasOwn(REVIEW_ISSUE_KINDS, kind) || !REVIEW_SEVERITIES.includes(severity) || !title || !followUp) continue;
+
+    const turns = Array.isArray(entry.turns)
+      ? entry.turns.filter((turn): turn is number => Number.isInteger(turn) && turn >= 0 && turn < turnCount)
+      : [];
+    const id = reviewIssueId(kind, title);
+    if (issues.some(issue => issue.id === id)) continue;
+
+    issues.push({ id, kind, severity, title, detail: readText(entry.detail) ?? '', turns, followUp });
+  }
+
+  return issues
+    .sort((a, b) => REVIEW_SEVERITIES.indexOf(a.severity) - REVIEW_SEVERITIES.indexOf(b.severity))
+    .slice(0, MAX_ISSUES);
+}
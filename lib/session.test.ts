@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { appendTurn, createSession, forkAt, type Session } from './session';
+import { createEmptySpec, type AppSpec } from './spec';
+
+const specFor = (appType: string): AppSpec => ({ ...createEmptySpec(), appType });
+
+// Three answered turns, with the spec updated after each as the question route would.
+function interview(): Session {
+  let session = createSession();
+  for (const appType of ['tracker', 'team tracker', 'team tracker with sprints']) {
+    session = { ...appendTurn(session, { question: 'Q', answer: appType }), spec: specFor(appType) };
+  }
+  return session;
+}
+
+describe('forkAt', () => {
+  it('resumes from the spec saved with the turn before the fork', () => {
+    const forked = forkAt(interview(), 2);
+
+    expect(forked.turns).toHaveLength(2);
+    expect(forked.spec).toEqual(interview().turns[1].spec);
+  });
+
+  it('starts from an empty spec when forking at the first answer', () => {
+    expect(forkAt(interview(), 0).spec).toEqual(createEmptySpec());
+  });
+
+  it('keeps the session spec when turns carry no snapshot', () => {
+    const session = interview();
+    const imported = { ...session, turns: session.turns.map(({ spec: _spec, ...turn }) => turn) };
+
+    expect(forkAt(imported, 2).spec).toEqual(session.spec);
+  });
+});
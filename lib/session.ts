@@ -0,0 +1,214 @@
+import type { Attachment } from './attachments';
+import { createEmptySpec, parseAppSpec, type AppSpec } from './spec';
+import { DEFAULT_STRATEGY_ID, getStrategy } from './interviews';
+import { DEFAULT_TEMPLATE_ID, getTemplate } from './templates';
+import type { ReviewIssue } from './review';
+import type { ShareLink } from './sharing/types';
+import type { Turn } from './transcript';
+
+export const FIRST_QUESTION = 'What kind of app would you like to create?';
+export const UNTITLED = 'Untitled app';
+const FIRST_SUGGESTIONS = ['A task tracker for my team', 'An online store', 'A booking system', 'A personal blog'];
+
+const TITLE_LENGTH = 48;
+
+// An alternative line of the interview, kept when an earlier answer is edited.
+export interface Branch {
+  id: string;
+  createdAt: string;
+  forkIndex: number;
+  turns: Turn[];
+  currentQuestion: string;
+  builtPrompt: string | null;
+  spec: AppSpec;
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: Turn[];
+  currentQuestion: string;
+  // Suggested answers for `currentQuestion`, shown as chips.
+  suggestions: string[];
+  builtPrompt: string | null;
+  spec: AppSpec;
+  templateId: string;
+  // Chosen before the first answer and fixed afterwards.
+  strategyId: string;
+  // Open findings from the last review; dismissed ids stay hidden on later reviews.
+  reviewIssues: ReviewIssue[];
+  dismissedIssueIds: string[];
+  // Shared by every branch: references describe the app, not one line of the interview.
+  attachments: Attachment[];
+  branches: Branch[];
+  // Set while a read-only copy is published; never exported.
+  share: ShareLink | null;
+}
+
+function newId(): string {
+  return crypto.randomUUID();
+}
+
+export function createSession(): Session {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    title: UNTITLED,
+    createdAt: now,
+    updatedAt: now,
+    turns: [],
+    currentQuestion: FIRST_QUESTION,
+    suggestions: FIRST_SUGGESTIONS,
+    builtPrompt: null,
+    spec: createEmptySpec(),
+    templateId: DEFAULT_TEMPLATE_ID,
+    strategyId: DEFAULT_STRATEGY_ID,
+    reviewIssues: [],
+    dismissedIssueIds: [],
+    attachments: [],
+    branches: [],
+    share: null,
+  };
+}
+
+// Fills in fields added after a session was saved, so older sessions keep loading.
+export function normalizeSession(saved: Session): Session {
+  const spec = parseAppSpec(saved.spec);
+  return {
+    ...saved,
+    spec: spec.success ? spec.data : createEmptySpec(),
+    templateId: getTemplate(saved.templateId).id,
+    strategyId: getStrategy(saved.strategyId).id,
+    branches: saved.branches ?? [],
+    suggestions: saved.suggestions ?? [],
+    reviewIssues: saved.reviewIssues ?? [],
+    dismissedIssueIds: saved.dismissedIssueIds ?? [],
+    attachments: saved.attachments ?? [],
+    share: saved.share ?? null,
+  };
+}
+
+export function titleFromAnswer(answer: string): string {
+  const line = answer.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+}
+
+export function appendTurn(session: Session, turn: Turn): Session {
+  return {
+    ...session,
+    title: session.turns.length === 0 && session.title === UNTITLED ? titleFromAnswer(turn.answer) : session.title,
+    turns: [...session.turns, { ...turn, spec: session.spec }],
+    suggestions: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function duplicateSession(session: Session): Session {
+  const now = new Date().toISOString();
+  return { ...session, id: newId(), title: `${session.title} (copy)`, createdAt: now, updatedAt: now, share: null };
+}
+
+// The spec as it stood before the turn at `turnIndex`. Imported and shared sessions carry no per-turn
+// snapshots, so those keep the session spec rather than starting over from nothing.
+function forkSpec(session: Session, turnIndex: number): AppSpec {
+  if (turnIndex === 0) return createEmptySpec();
+  return session.turns[turnIndex - 1].spec ?? session.spec;
+}
+
+// Archives the current line and rewinds to `turnIndex`, so the edited answer can be
+// submitted against that turn's question and the interview regenerates from there.
+export function forkAt(session: Session, turnIndex: number): Session {
+  const archived: Branch = {
+    id: newId(),
+    createdAt: new Date().toISOString(),
+    forkIndex: turnIndex,
+    turns: session.turns,
+    currentQuestion: session.currentQuestion,
+    builtPrompt: session.builtPrompt,
+    spec: session.spec,
+  };
+
+  return {
+    ...session,
+    turns: session.turns.slice(0, turnIndex),
+    currentQuestion: session.turns[turnIndex].question,
+    suggestions: [],
+    reviewIssues: [],
+    builtPrompt: null,
+    spec: forkSpec(session, turnIndex),
+    branches: [...session.branches, archived],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Makes an archived branch the active line and archives the current one in its place.
+export function switchBranch(session: Session, branchId: string): Session {
+  const target = session.branches.find(branch => branch.id === branchId);
+  if (!target) return session;
+
+  const current: Branch = {
+    ...target,
+    id: newId(),
+    createdAt: new Date().toISOString(),
+    turns: session.turns,
+    currentQuestion: session.currentQuestion,
+    builtPrompt: session.builtPrompt,
+    spec: session.spec,
+  };
+
+  return {
+    ...session,
+    turns: target.turns,
+    currentQuestion: target.currentQuestion,
+    suggestions: [],
+    reviewIssues: [],
+    builtPrompt: target.builtPrompt,
+    spec: target.spec,
+    branches: session.branches.map(branch => (branch.id === branchId ? current : branch)),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function deleteBranch(session: Session, branchId: string): Session {
+  return { ...session, branches: session.branches.filter(branch => branch.id !== branchId) };
+}
+
+// Turns a review finding into the next question; answering it resolves the issue.
+export function askFollowUp(session: Session, issue: ReviewIssue): Session {
+  return {
+    ...session,
+    currentQuestion: issue.followUp,
+    suggestions: [],
+    builtPrompt: null,
+    reviewIssues: session.reviewIssues.filter(({ id }) => id !== issue.id),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function dismissIssue(session: Session, issueId: string): Session {
+  return {
+    ...session,
+    reviewIssues: session.reviewIssues.filter(({ id }) => id !== issueId),
+    dismissedIssueIds: [...session.dismissedIssueIds, issueId],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function addAttachment(session: Session, attachment: Omit<Attachment, 'id' | 'addedAt'>): Session {
+  const now = new Date().toISOString();
+  return {
+    ...session,
+    attachments: [...session.attachments, { ...attachment, id: newId(), addedAt: now }],
+    updatedAt: now,
+  };
+}
+
+export function removeAttachment(session: Session, id: string): Session {
+  return {
+    ...session,
+    attachments: session.attachments.filter(attachment => attachment.id !== id),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,81 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { isShareId, type SharedSession, type ShareStore } from './types';
+
+function isMissing(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+// One JSON file per shared session. Writes to the same record are queued, which is
+// enough for a single server; use a database-backed store when running several.
+export function createFileShareStore(dir: string): ShareStore {
+  let ready: Promise<unknown> | null = null;
+  const queues = new Map<string, Promise<unknown>>();
+
+  // Ids come from URLs, so anything that isn't one of ours never reaches the file system.
+  const pathFor = (id: string) => (isShareId(id) ? join(dir, `${id}.json`) : null);
+
+  const read = async (id: string): Promise<SharedSession | null> => {
+    const path = pathFor(id);
+    if (!path) return null;
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+
+  const write = async (shared: SharedSession) => {
+    const path = pathFor(shared.id);
+    if (!path) throw new Error(`Invalid share id: ${shared.id}`);
+    ready ??= mkdir(dir, { recursive: true });
+    await ready;
+    // Rename is atomic, so readers never see a half-written file.
+    const temp = `${path}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(shared));
+    await rename(temp, path);
+  };
+
+  const enqueue = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const result = (queues.get(id) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    queues.set(id, settled);
+    settled.then(() => {
+      if (queues.get(id) === settled) queues.delete(id);
+    });
+    return result;
+  };
+
+  return {
+    get: read,
+
+    put(shared) {
+      return enqueue(shared.id, () => write(shared));
+    },
+
+    delete(id) {
+      return enqueue(id, async () => {
+        const path = pathFor(id);
+        if (!path) return false;
+        try {
+          await unlink(path);
+          return true;
+        } catch (error) {
+          if (isMissing(error)) return false;
+          throw error;
+        }
+      });
+    },
+
+    update(id, change) {
+      return enqueue(id, async () => {
+        const current = await read(id);
+        if (!current) return null;
+        const next = change(current);
+        await write(next);
+        return next;
+      });
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendTurn, createSession } from '@/lib/session';
+import { createFileShareStore, createSharedSession, isOwner, type ShareStore } from '.';
+
+const session = () => appendTurn(createSession(), { question: 'What kind of app?', answer: 'A blog' });
+
+describe('createSharedSession', () => {
+  it('creates an unguessable id and an owner token that only matches itself', () => {
+    const { shared, ownerToken } = createSharedSession(session());
+
+    expect(shared.id).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(shared.ownerTokenHash).not.toContain(ownerToken);
+    expect(isOwner(shared, ownerToken)).toBe(true);
+    expect(isOwner(shared, `${ownerToken}x`)).toBe(false);
+    expect(isOwner(shared, null)).toBe(false);
+  });
+
+  it('uses the built prompt as the summary, or renders one from the answers', () => {
+    expect(createSharedSession({ ...session(), builtPrompt: 'Build a blog' }).shared.summaryPrompt).toBe('Build a blog');
+    expect(createSharedSession(session()).shared.summaryPrompt).toContain('A blog');
+  });
+});
+
+describe('createFileShareStore', () => {
+  let dir: string;
+  let store: ShareStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'shares-'));
+    store = createFileShareStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores, updates and deletes a shared session', async () => {
+    const { shared } = createSharedSession(session());
+    await store.put(shared);
+
+    expect(await store.get(shared.id)).toEqual(shared);
+
+    const updated = await store.update(shared.id, current => ({ ...current, summaryPrompt: 'Changed' }));
+    expect(updated?.summaryPrompt).toBe('Changed');
+    expect((await store.get(shared.id))?.summaryPrompt).toBe('Changed');
+
+    expect(await store.delete(shared.id)).toBe(true);
+    expect(await store.get(shared.id)).toBeNull();
+    expect(await store.delete(shared.id)).toBe(false);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const { shared } = createSharedSession(session());
+    await store.put(shared);
+
+    await Promise.all(Array.from({ length: 5 }, (_, index) => store.update(shared.id, current => ({
+      ...current,
+      comments: [...current.comments, { id: String(index), turn: 0, author: 'Sam', body: 'Hi', createdAt: '' }],
+    }))));
+
+    expect((await store.get(shared.id))?.comments).toHaveLength(5);
+  });
+
+  it('never touches the file system for ids that are not share ids', async () => {
+    expect(await store.get('../../etc/passwd')).toBeNull();
+    expect(await store.delete('../secrets')).toBe(false);
+    expect(await store.update('..', current => current)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+// Server-only: publishing, ownership checks and the configured store.
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Session } from '@/lib/session';
+import { getTemplate, renderTemplate } from '@/lib/templates';
+import { createFileShareStore } from './fileStore';
+import type { SharedSession, ShareStore } from './types';
+
+export * from './types';
+export { createFileShareStore } from './fileStore';
+
+const DEFAULT_SHARE_DIR = '.data/shares';
+
+let store: ShareStore | null = null;
+
+export function getShareStore(): ShareStore {
+  if (!store) {
+    store = createFileShareStore(process.env.SHARE_STORE_DIR || DEFAULT_SHARE_DIR);
+  }
+  return store;
+}
+
+// Lets a deployment plug in its own store (SQLite, Postgres, a KV service) at startup.
+export function setShareStore(next: ShareStore) {
+  store = next;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+export function isOwner(shared: SharedSession, token: string | null): boolean {
+  if (!token) return false;
+  return timingSafeEqual(hashToken(token), Buffer.from(shared.ownerTokenHash, 'hex'));
+}
+
+// Comments stay on the record; answers they point at may have changed since.
+export function snapshotSession(session: Session): Pick<SharedSession, 'session' | 'summaryPrompt'> {
+  return {
+    session: {
+      title: session.title,
+      turns: session.turns.map(({ question, answer, source }) => ({ question, answer, ...(source ? { source } : {}) })),
+      spec: session.spec,
+      builtPrompt: session.builtPrompt,
+      templateId: session.templateId,
+      attachments: session.attachments,
+    },
+    summaryPrompt: session.builtPrompt ?? renderTemplate(getTemplate(session.templateId), session),
+  };
+}
+
+// The id is what goes in the link; the owner token is returned once and only its hash is kept.
+export function createSharedSession(session: Session): { shared: SharedSession; ownerToken: string } {
+  const ownerToken = randomBytes(32).toString('base64url');
+  const now = new Date().toISOString();
+  return {
+    shared: {
+      id: randomBytes(16).toString('base64url'),
+      ownerTokenHash: hashToken(ownerToken).toString('hex'),
+      ...snapshotSession(session),
+      publishedAt: now,
+      updatedAt: now,
+      comments: [],
+    },
+    ownerToken,
+  };
+}
@@ -0,0 +1,57 @@
+import type { Session } from '@/lib/session';
+
+export const SHARE_LIMITS = {
+  author: 80,
+  comment: 2000,
+  // A whole comment request: the author and text at up to 4 bytes a character, plus the JSON around them.
+  commentBytes: 16_000,
+  commentsPerShare: 500,
+  // The published export document; generous for a 100-turn session with references.
+  documentBytes: 1_000_000,
+};
+
+// 16 random bytes in base64url.
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+export function isShareId(id: string): boolean {
+  return SHARE_ID_PATTERN.test(id);
+}
+
+// Kept with the owner's local session so they can update or revoke the link later.
+export interface ShareLink {
+  id: string;
+  ownerToken: string;
+  publishedAt: string;
+}
+
+export interface ShareComment {
+  id: string;
+  // Index of the answer the comment belongs to.
+  turn: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export type SharedSessionSnapshot = Pick<Session, 'title' | 'turns' | 'spec' | 'builtPrompt' | 'templateId' | 'attachments'>;
+
+export interface SharedSession {
+  id: string;
+  // Only the hash is stored, so reading the store doesn't let anyone revoke links.
+  ownerTokenHash: string;
+  session: SharedSessionSnapshot;
+  // The built prompt, or the session rendered with its template when it has none yet.
+  summaryPrompt: string;
+  publishedAt: string;
+  updatedAt: string;
+  comments: ShareComment[];
+}
+
+export interface ShareStore {
+  get(id: string): Promise<SharedSession | null>;
+  put(shared: SharedSession): Promise<void>;
+  // Resolves to false when there was nothing to delete.
+  delete(id: string): Promise<boolean>;
+  // Read-modify-write; resolves to null when the record doesn't exist.
+  update(id: string, change: (shared: SharedSession) => SharedSession): Promise<SharedSession | null>;
+}
@@ -0,0 +1,103 @@
+import type { ValidationIssue } from './api/errors';
+
+export interface AppSpec {
+  appType: string | null;
+  targetPlatforms: string[];
+  targetUsers: string[];
+  coreFeatures: string[];
+  dataEntities: string[];
+  authNeeds: string | null;
+  integrations: string[];
+  stylingPreferences: string[];
+  constraints: string[];
+}
+
+export type SpecField = keyof AppSpec;
+
+// Ordered by how much a code generator needs each field; the first missing one is the biggest gap.
+export const SPEC_FIELDS: { field: SpecField; label: string; description: string }[] = [
+  { field: 'appType', label: 'App type', description: 'what kind of app it is and the problem it solves' },
+  { field: 'targetUsers', label: 'Target users', description: 'who uses the app and their roles' },
+  { field: 'coreFeatures', label: 'Core features', description: 'the must-have features of the first version' },
+  { field: 'dataEntities', label: 'Data entities', description: 'the main things the app stores' },
+  { field: 'targetPlatforms', label: 'Platforms', description: 'web, mobile or desktop targets' },
+  { field: 'authNeeds', label: 'Authentication', description: 'whether and how users sign in' },
+  { field: 'stylingPreferences', label: 'Styling', description: 'look, feel and branding' },
+  { field: 'integrations', label: 'Integrations', description: 'external services or APIs' },
+  { field: 'constraints', label: 'Constraints', description: 'budget, deadlines, tech stack or compliance limits' },
+];
+
+const MAX_ITEMS = 20;
+const MAX_LENGTH = 300;
+
+export function createEmptySpec(): AppSpec {
+  return {
+    appType: null,
+    targetPlatforms: [],
+    targetUsers: [],
+    coreFeatures: [],
+    dataEntities: [],
+    authNeeds: null,
+    integrations: [],
+    stylingPreferences: [],
+    constraints: [],
+  };
+}
+
+export function isFieldFilled(spec: AppSpec, field: SpecField): boolean {
+  const value = spec[field];
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+export function missingFields(spec: AppSpec): SpecField[] {
+  return SPEC_FIELDS.map(({ field }) => field).filter(field => !isFieldFilled(spec, field));
+}
+
+// `fields` narrows and reorders the search, e.g. to an interview strategy's focus areas.
+export function biggestGap(spec: AppSpec, fields?: SpecField[]): (typeof SPEC_FIELDS)[number] | null {
+  const candidates = fields
+    ? fields.map(field => SPEC_FIELDS.find(entry => entry.field === field)!)
+    : SPEC_FIELDS;
+  return candidates.find(({ field }) => !isFieldFilled(spec, field)) ?? null;
+}
+
+export type SpecParseResult =
+  | { success: true; data: AppSpec }
+  | { success: false; issues: ValidationIssue[] };
+
+export function parseAppSpec(value: unknown, path = 'spec'): SpecParseResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { success: false, issues: [{ path, message: 'Expected an object' }] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const spec = createEmptySpec();
+
+  for (const { field } of SPEC_FIELDS) {
+    const raw = input[field];
+    const fieldPath = `${path}.${field}`;
+
+    if (raw === undefined || raw === null) continue;
+
+    if (Array.isArray(spec[field])) {
+      if (!Array.isArray(raw) || !raw.every(item => typeof item === 'string')) {
+        issues.push({ path: fieldPath, message: 'Expected an array of strings' });
+        continue;
+      }
+      if (raw.length > MAX_ITEMS || raw.some(item => item.length > MAX_LENGTH)) {
+        issues.push({ path: fieldPath, message: `Expected at most ${MAX_ITEMS} items of ${MAX_LENGTH} characters` });
+        continue;
+      }
+      (spec[field] as string[]) = raw.map(item => item.trim()).filter(Boolean);
+    } else {
+      if (typeof raw !== 'string' || raw.length > MAX_LENGTH) {
+        issues.push({ path: fieldPath, message: `Expected a string of at most ${MAX_LENGTH} characters` });
+        continue;
+      }
+      (spec[field] as string | null) = raw.trim() || null;
+    }
+  }
+
+  return issues.length ? { success: false, issues } : { success: true, data: spec };
+}
@@ -0,0 +1,53 @@
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(data: unknown, event?: string): Uint8Array {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  return encoder.encode(`${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`);
+}
+
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const message = parseBlock(buffer);
+    if (message) yield message;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseBlock(block: string): SSEMessage | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length ? { event, data: data.join('\n') } : null;
+}
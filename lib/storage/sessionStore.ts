@@ -0,0 +1,59 @@
+import { normalizeSession, type Session } from '@/lib/session';
+
+// Async so an IndexedDB-backed store can implement the same interface.
+export interface SessionStore {
+  list(): Promise<Session[]>;
+  get(id: string): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  delete(id: string): Promise<void>;
+  getActiveId(): Promise<string | null>;
+  setActiveId(id: string): Promise<void>;
+}
+
+const SESSIONS_KEY = 'webapp-prompt-builder.sessions';
+const ACTIVE_KEY = 'webapp-prompt-builder.active-session';
+
+export function createLocalStorageSessionStore(storage: Storage = window.localStorage): SessionStore {
+  const readAll = (): Record<string, Session> => {
+    try {
+      return JSON.parse(storage.getItem(SESSIONS_KEY) || '{}');
+    } catch (error) {
+      console.error('Error reading saved sessions:', error);
+      return {};
+    }
+  };
+
+  const writeAll = (sessions: Record<string, Session>) => {
+    storage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  };
+
+  return {
+    async list() {
+      return Object.values(readAll())
+        .map(normalizeSession)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async get(id) {
+      const saved = readAll()[id];
+      return saved ? normalizeSession(saved) : null;
+    },
+
+    async save(session) {
+      writeAll({ ...readAll(), [session.id]: session });
+    },
+
+    async delete(id) {
+      const { [id]: _removed, ...rest } = readAll();
+      writeAll(rest);
+    },
+
+    async getActiveId() {
+      return storage.getItem(ACTIVE_KEY);
+    },
+
+    async setActiveId(id) {
+      storage.setItem(ACTIVE_KEY, id);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { TelemetrySink, UsageRecord } from './types';
+
+// Appends one JSON record per line; fine for a single server, swap in a database sink for more.
+export function createFileSink(path: string): TelemetrySink {
+  let ready: Promise<unknown> | null = null;
+
+  return {
+    async write(record) {
+      ready ??= mkdir(dirname(path), { recursive: true });
+      await ready;
+      await appendFile(path, `${JSON.stringify(record)}\n`);
+    },
+
+    async read(since) {
+      let text: string;
+      try {
+        text = await readFile(path, 'utf8');
+      } catch (error) {
+        if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const records: UsageRecord[] = [];
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record: UsageRecord = JSON.parse(line);
+          if (!since || new Date(record.timestamp) >= since) records.push(record);
+        } catch {
+          // A partially written last line after a crash; skip it.
+        }
+      }
+      return records;
+    },
+  };
+}
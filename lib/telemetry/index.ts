@@ -0,0 +1,24 @@
+import { createFileSink } from './fileSink';
+import type { TelemetrySink } from './types';
+
+export * from './types';
+export { createFileSink } from './fileSink';
+export { DEFAULT_PRICES, estimateCost, readPriceTable, type ModelPrice } from './pricing';
+export { summarizeUsage, type UsageSummary, type UsageTotals } from './summary';
+export { withTracking, type TrackingContext } from './track';
+
+const DEFAULT_USAGE_FILE = '.data/usage.jsonl';
+
+let sink: TelemetrySink | null = null;
+
+export function getTelemetrySink(): TelemetrySink {
+  if (!sink) {
+    sink = createFileSink(process.env.USAGE_LOG_FILE || DEFAULT_USAGE_FILE);
+  }
+  return sink;
+}
+
+// Lets a deployment plug in its own sink (a database, a log pipeline) at startup.
+export function setTelemetrySink(next: TelemetrySink) {
+  sink = next;
+}
@@ -0,0 +1,33 @@
+import type { TokenUsage } from '@/lib/llm';
+
+// US dollars per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 5, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+  mock: { input: 0, output: 0 },
+};
+
+// LLM_PRICES takes JSON like {"gpt-4o": {"input": 2.5, "output": 10}} and overrides or extends the defaults.
+export function readPriceTable(env: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+  if (!env.LLM_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(env.LLM_PRICES) };
+  } catch {
+    console.error('Ignoring LLM_PRICES: not valid JSON');
+    return DEFAULT_PRICES;
+  }
+}
+
+export function estimateCost(prices: Record<string, ModelPrice>, model: string, usage: TokenUsage): number | null {
+  const price = prices[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
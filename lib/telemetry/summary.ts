@@ -0,0 +1,62 @@
+import type { UsageRecord } from './types';
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  cacheHits: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Calls whose model had no price, so `costUsd` undercounts.
+  unpriced: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byDay: { day: string; totals: UsageTotals }[];
+  bySession: { sessionId: string; lastSeen: string; totals: UsageTotals }[];
+}
+
+function totalsOf(records: UsageRecord[]): UsageTotals {
+  const totals = records.reduce(
+    (sum, record) => ({
+      calls: sum.calls + 1,
+      errors: sum.errors + (record.errorCode && record.errorCode !== 'ABORTED' ? 1 : 0),
+      cacheHits: sum.cacheHits + (record.cache === 'hit' ? 1 : 0),
+      promptTokens: sum.promptTokens + record.promptTokens,
+      completionTokens: sum.completionTokens + record.completionTokens,
+      costUsd: sum.costUsd + (record.costUsd ?? 0),
+      unpriced: sum.unpriced + (record.costUsd === null ? 1 : 0),
+      averageLatencyMs: sum.averageLatencyMs + record.latencyMs,
+    }),
+    { calls: 0, errors: 0, cacheHits: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpriced: 0, averageLatencyMs: 0 },
+  );
+  return { ...totals, averageLatencyMs: totals.calls ? Math.round(totals.averageLatencyMs / totals.calls) : 0 };
+}
+
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const value = key(record);
+    groups.set(value, [...(groups.get(value) ?? []), record]);
+  }
+  return groups;
+}
+
+// Newest days and most recently active sessions first.
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const byDay = Array.from(groupBy(records, record => record.timestamp.slice(0, 10)))
+    .map(([day, group]) => ({ day, totals: totalsOf(group) }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+
+  const bySession = Array.from(groupBy(records, record => record.sessionId ?? 'unknown'))
+    .map(([sessionId, group]) => ({
+      sessionId,
+      lastSeen: group.reduce((latest, record) => (record.timestamp > latest ? record.timestamp : latest), ''),
+      totals: totalsOf(group),
+    }))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+
+  return { total: totalsOf(records), byDay, bySession };
+}
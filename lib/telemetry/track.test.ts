@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createResponseCache, withResponseCache, type CacheStatus } from '@/lib/api/responseCache';
+import type { LLMProvider } from '@/lib/llm';
+import { withTracking } from './track';
+import type { TelemetrySink, UsageRecord } from './types';
+
+function memorySink() {
+  const records: UsageRecord[] = [];
+  const sink: TelemetrySink = {
+    async write(record) {
+      records.push(record);
+    },
+    async read() {
+      return records;
+    },
+  };
+  return { sink, records };
+}
+
+// Reports 1000 prompt and 500 completion tokens, like a backend that returns usage.
+const provider: LLMProvider = {
+  name: 'stub',
+  async complete() {
+    return { content: 'Who is it for?', finishReason: 'stop', usage: { promptTokens: 1000, completionTokens: 500 } };
+  },
+  async *stream() {
+    yield 'Who is it for?';
+  },
+};
+
+describe('withTracking', () => {
+  it('logs cache hits at zero tokens and zero cost', async () => {
+    const { sink, records } = memorySink();
+    let status: CacheStatus = 'miss';
+    const cached = withResponseCache(provider, createResponseCache({ ttlMs: 60_000, maxEntries: 10 }), hit => {
+      status = hit ? 'hit' : 'miss';
+    });
+    const tracked = withTracking(cached, {
+      sink,
+      prices: { 'stub-model': { input: 1, output: 1 } },
+      route: 'openai',
+      task: 'next-question',
+      sessionId: null,
+      cacheStatus: () => status,
+      classifyError: () => 'UPSTREAM_ERROR',
+    });
+    const request = { model: 'stub-model', messages: [{ role: 'user' as const, content: 'A booking app' }] };
+
+    await tracked.complete(request);
+    await tracked.complete(request);
+
+    expect(records.map(({ cache, promptTokens, completionTokens, costUsd, estimated }) =>
+      ({ cache, promptTokens, completionTokens, costUsd, estimated }))).toEqual([
+      { cache: 'miss', promptTokens: 1000, completionTokens: 500, costUsd: 0.0015, estimated: false },
+      { cache: 'hit', promptTokens: 0, completionTokens: 0, costUsd: 0, estimated: false },
+    ]);
+  });
+});
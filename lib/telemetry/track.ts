@@ -0,0 +1,86 @@
+import { abortError, isAbortError } from '@/lib/abort';
+import type { CompletionRequest, LLMProvider, TokenUsage } from '@/lib/llm';
+import { estimateTokens } from '@/lib/tokens';
+import { estimateCost, type ModelPrice } from './pricing';
+import type { TelemetrySink, UsageRecord } from './types';
+
+export interface TrackingContext {
+  sink: TelemetrySink;
+  prices: Record<string, ModelPrice>;
+  route: UsageRecord['route'];
+  task: string;
+  sessionId: string | null;
+  cacheStatus: () => UsageRecord['cache'];
+  classifyError: (error: unknown) => string;
+}
+
+// Writes one usage record per call, whether it succeeds, fails or is aborted.
+export function withTracking(provider: LLMProvider, context: TrackingContext): LLMProvider {
+  const track = (request: CompletionRequest, startedAt: number, output: string, usage?: TokenUsage, error?: unknown) => {
+    const cache = context.cacheStatus();
+    // Cached results still carry the usage of the call that filled the cache, but a hit costs nothing.
+    const counted = cache === 'hit' ? { promptTokens: 0, completionTokens: 0 } : usage ?? {
+      promptTokens: request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      completionTokens: estimateTokens(output),
+    };
+    const record: UsageRecord = {
+      timestamp: new Date(startedAt).toISOString(),
+      route: context.route,
+      task: context.task,
+      sessionId: context.sessionId,
+      provider: provider.name,
+      model: request.model,
+      ...counted,
+      estimated: !usage && cache !== 'hit',
+      costUsd: estimateCost(context.prices, request.model, counted),
+      latencyMs: Date.now() - startedAt,
+      cache,
+      errorCode: error === undefined ? null : isAbortError(error) ? 'ABORTED' : context.classifyError(error),
+    };
+    context.sink.write(record).catch(sinkError => console.error('Error writing usage record:', sinkError));
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request) {
+      const startedAt = Date.now();
+      try {
+        const result = await provider.complete(request);
+        track(request, startedAt, result.content, result.usage);
+        return result;
+      } catch (error) {
+        track(request, startedAt, '', undefined, error);
+        throw error;
+      }
+    },
+
+    async *stream(request) {
+      const startedAt = Date.now();
+      let output = '';
+      let usage: TokenUsage | undefined;
+      let completed = false;
+      let failure: unknown;
+      try {
+        const deltas = provider.stream({
+          ...request,
+          onUsage: reported => {
+            usage = reported;
+            request.onUsage?.(reported);
+          },
+        });
+        for await (const delta of deltas) {
+          output += delta;
+          yield delta;
+        }
+        completed = true;
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        // Also runs when the consumer stops early, which counts as an abort.
+        track(request, startedAt, output, usage, completed ? undefined : failure ?? abortError());
+      }
+    },
+  };
+}
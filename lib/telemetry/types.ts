@@ -0,0 +1,25 @@
+export interface UsageRecord {
+  timestamp: string;
+  route: 'openai' | 'review' | 'ingest' | 'transcribe';
+  // What the call was for, e.g. 'next-question', 'build-prompt', 'extract-spec', 'suggestions' or 'review'.
+  task: string;
+  sessionId: string | null;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // True when the backend didn't report token counts and they were estimated from text length.
+  estimated: boolean;
+  // null when the model is missing from the price table.
+  costUsd: number | null;
+  latencyMs: number;
+  cache: 'hit' | 'miss' | 'bypass';
+  // An ApiErrorCode, 'ABORTED' when the client went away, or null on success.
+  errorCode: string | null;
+}
+
+// Where usage records go. A SQLite or warehouse-backed sink only needs these two methods.
+export interface TelemetrySink {
+  write(record: UsageRecord): Promise<void>;
+  read(since?: Date): Promise<UsageRecord[]>;
+}
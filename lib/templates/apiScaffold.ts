@@ -0,0 +1,42 @@
+import type { PromptTemplate } from './types';
+
+export const apiScaffoldTemplate: PromptTemplate = {
+  id: 'api-scaffold',
+  name: 'Backend / API scaffold',
+  description: 'A data- and endpoint-focused prompt for scaffolding a backend.',
+  preamble: 'Scaffold the backend API for the app described below.',
+  sections: [
+    {
+      heading: 'Domain',
+      sources: [{ type: 'spec', field: 'appType' }, { type: 'answers', topic: 'purpose' }],
+    },
+    {
+      heading: 'Entities',
+      intro: 'Define a data model, including relations and validation rules, for:',
+      sources: [{ type: 'spec', field: 'dataEntities' }, { type: 'answers', topic: 'data' }],
+    },
+    {
+      heading: 'Operations',
+      intro: 'Expose endpoints that support these features:',
+      sources: [{ type: 'spec', field: 'coreFeatures' }, { type: 'answers', topic: 'features' }],
+    },
+    {
+      heading: 'Clients and roles',
+      sources: [{ type: 'spec', field: 'targetUsers' }, { type: 'answers', topic: 'users' }],
+    },
+    {
+      heading: 'Authentication and authorization',
+      sources: [{ type: 'spec', field: 'authNeeds' }, { type: 'answers', topic: 'auth' }],
+      fallback: 'Not decided yet; leave a pluggable auth middleware in place.',
+    },
+    {
+      heading: 'Integrations',
+      sources: [{ type: 'spec', field: 'integrations' }],
+    },
+    {
+      heading: 'Constraints',
+      sources: [{ type: 'spec', field: 'constraints' }],
+    },
+  ],
+  closing: 'Include the schema, route handlers, request validation, error responses and a short README describing each endpoint.',
+};
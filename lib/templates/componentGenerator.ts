@@ -0,0 +1,38 @@
+import type { PromptTemplate } from './types';
+
+export const componentGeneratorTemplate: PromptTemplate = {
+  id: 'component-generator',
+  name: 'Component generator',
+  description: 'A UI-first prompt for tools that generate React components.',
+  preamble: 'Generate the React UI for the app described below, using TypeScript and Tailwind CSS.',
+  sections: [
+    {
+      heading: 'What the app is',
+      sources: [{ type: 'spec', field: 'appType' }, { type: 'answers', topic: 'purpose' }],
+    },
+    {
+      heading: 'Who it is for',
+      sources: [{ type: 'spec', field: 'targetUsers' }, { type: 'answers', topic: 'users' }],
+    },
+    {
+      heading: 'Screens and interactions',
+      intro: 'Each feature needs a screen or component that supports it:',
+      sources: [{ type: 'spec', field: 'coreFeatures' }, { type: 'answers', topic: 'features' }],
+    },
+    {
+      heading: 'Data to display',
+      intro: 'Use realistic mock data for these entities:',
+      sources: [{ type: 'spec', field: 'dataEntities' }, { type: 'answers', topic: 'data' }],
+    },
+    {
+      heading: 'Look and feel',
+      sources: [{ type: 'spec', field: 'stylingPreferences' }, { type: 'answers', topic: 'ui' }],
+      fallback: 'Clean and modern, with accessible contrast and a responsive layout.',
+    },
+    {
+      heading: 'Target devices',
+      sources: [{ type: 'spec', field: 'targetPlatforms' }],
+    },
+  ],
+  closing: 'Keep components small and composable, and leave data fetching behind clearly marked placeholders.',
+};
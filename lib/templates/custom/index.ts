@@ -0,0 +1,5 @@
+import type { PromptTemplate } from '../types';
+
+// Sessions and share links store the template id, so keep ids stable once a template is in use;
+// an unknown id renders with the generic chat template.
+export const customTemplates: PromptTemplate[] = [];
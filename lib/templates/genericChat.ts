@@ -0,0 +1,51 @@
+import type { PromptTemplate } from './types';
+
+export const genericChatTemplate: PromptTemplate = {
+  id: 'generic-chat',
+  name: 'Generic LLM chat',
+  description: 'A complete spec for ChatGPT, Claude or any chat model.',
+  preamble: 'Build a web application from the specification below. Ask me about anything that is ambiguous before writing code.',
+  sections: [
+    {
+      heading: 'Overview',
+      sources: [{ type: 'spec', field: 'appType' }, { type: 'answers', topic: 'purpose' }],
+    },
+    {
+      heading: 'Target users',
+      sources: [{ type: 'spec', field: 'targetUsers' }, { type: 'answers', topic: 'users' }],
+    },
+    {
+      heading: 'Core features',
+      sources: [{ type: 'spec', field: 'coreFeatures' }, { type: 'answers', topic: 'features' }],
+    },
+    {
+      heading: 'Data model',
+      sources: [{ type: 'spec', field: 'dataEntities' }, { type: 'answers', topic: 'data' }],
+    },
+    {
+      heading: 'Authentication',
+      sources: [{ type: 'spec', field: 'authNeeds' }, { type: 'answers', topic: 'auth' }],
+    },
+    {
+      heading: 'Platforms',
+      sources: [{ type: 'spec', field: 'targetPlatforms' }],
+    },
+    {
+      heading: 'UI and styling',
+      sources: [{ type: 'spec', field: 'stylingPreferences' }, { type: 'answers', topic: 'ui' }],
+    },
+    {
+      heading: 'Integrations',
+      sources: [{ type: 'spec', field: 'integrations' }],
+    },
+    {
+      heading: 'Constraints',
+      sources: [{ type: 'spec', field: 'constraints' }],
+    },
+    {
+      heading: 'Interview transcript',
+      intro: 'The original questions and answers, for context:',
+      sources: [{ type: 'transcript' }],
+    },
+  ],
+};
@@ -0,0 +1,21 @@
+import { apiScaffoldTemplate } from './apiScaffold';
+import { componentGeneratorTemplate } from './componentGenerator';
+import { customTemplates } from './custom';
+import { genericChatTemplate } from './genericChat';
+import type { PromptTemplate } from './types';
+
+export * from './types';
+export { renderTemplate } from './render';
+
+export const DEFAULT_TEMPLATE_ID = genericChatTemplate.id;
+
+export const TEMPLATES: PromptTemplate[] = [
+  genericChatTemplate,
+  componentGeneratorTemplate,
+  apiScaffoldTemplate,
+  ...customTemplates,
+];
+
+export function getTemplate(id: string | undefined): PromptTemplate {
+  return TEMPLATES.find(template => template.id === id) ?? genericChatTemplate;
+}
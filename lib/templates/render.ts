@@ -0,0 +1,44 @@
+import type { Session } from '@/lib/session';
+import { groupTurnsByTopic } from '@/lib/topics';
+import { formatTranscript } from '@/lib/transcript';
+import type { PromptTemplate, SectionSource, TemplateSection } from './types';
+
+function renderSource(source: SectionSource, session: Session): string | null {
+  switch (source.type) {
+    case 'spec': {
+      const value = session.spec[source.field];
+      if (Array.isArray(value)) {
+        return value.length ? value.map(item => `- ${item}`).join('\n') : null;
+      }
+      return value || null;
+    }
+    case 'answers': {
+      const group = groupTurnsByTopic(session.turns).find(({ topic }) => topic === source.topic);
+      return group ? group.turns.map(turn => `- ${turn.answer}`).join('\n') : null;
+    }
+    case 'transcript':
+      return session.turns.length ? formatTranscript(session.turns) : null;
+    case 'text':
+      return source.text;
+  }
+}
+
+function renderSection(section: TemplateSection, session: Session): string | null {
+  const content = section.sources.reduce<string | null>(
+    (found, source) => found ?? renderSource(source, session),
+    null,
+  ) ?? section.fallback;
+
+  if (!content) return null;
+  return [`## ${section.heading}`, section.intro, content].filter(Boolean).join('\n\n');
+}
+
+export function renderTemplate(template: PromptTemplate, session: Session): string {
+  const sections = template.sections
+    .map(section => renderSection(section, session))
+    .filter((section): section is string => section !== null);
+
+  return [template.preamble, ...sections, template.closing]
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,25 @@
+import type { SpecField } from '@/lib/spec';
+import type { Topic } from '@/lib/topics';
+
+export type SectionSource =
+  | { type: 'spec'; field: SpecField }
+  | { type: 'answers'; topic: Topic }
+  | { type: 'transcript' }
+  | { type: 'text'; text: string };
+
+export interface TemplateSection {
+  heading: string;
+  intro?: string;
+  // Sources are tried in order and the first one with content wins.
+  sources: SectionSource[];
+  fallback?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  preamble: string;
+  sections: TemplateSection[];
+  closing?: string;
+}
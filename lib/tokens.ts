@@ -0,0 +1,4 @@
+// Rough estimate for budgeting and display; providers bill real tokens, but ~4 characters per token is close enough.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,69 @@
+import type { Turn } from './transcript';
+
+export type Topic = 'purpose' | 'users' | 'features' | 'data' | 'auth' | 'ui';
+
+export const TOPIC_LABELS: Record<Topic, string> = {
+  purpose: 'Purpose',
+  users: 'Target users',
+  features: 'Features',
+  data: 'Data',
+  auth: 'Authentication',
+  ui: 'UI',
+};
+
+export const TOPICS = Object.keys(TOPIC_LABELS) as Topic[];
+
+const TOPIC_KEYWORDS: Record<Topic, string[]> = {
+  purpose: ['idea', 'purpose', 'goal', 'goals', 'problem', 'solve', 'why', 'kind', 'type'],
+  users: ['user', 'users', 'audience', 'customer', 'customers', 'who', 'people', 'team', 'persona', 'role', 'roles'],
+  features: ['feature', 'features', 'function', 'functionality', 'must', 'should', 'can', 'ability', 'workflow', 'action'],
+  data: ['data', 'store', 'save', 'database', 'record', 'records', 'information', 'track', 'entity', 'fields'],
+  auth: ['login', 'log', 'sign', 'signin', 'signup', 'account', 'accounts', 'auth', 'authentication', 'password', 'permission', 'permissions', 'sso', 'oauth'],
+  ui: ['look', 'feel', 'design', 'style', 'color', 'colors', 'theme', 'layout', 'screen', 'screens', 'mobile', 'dark', 'ui'],
+};
+
+const QUESTION_WEIGHT = 2;
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+/g) ?? [];
+}
+
+function score(topic: Topic, question: string[], answer: string[]): number {
+  const keywords = TOPIC_KEYWORDS[topic];
+  const hits = (list: string[]) => list.filter(word => keywords.includes(word)).length;
+  return hits(question) * QUESTION_WEIGHT + hits(answer);
+}
+
+export function classifyTurn(turn: Turn): Topic | null {
+  const question = words(turn.question);
+  const answer = words(turn.answer);
+  let best: Topic | null = null;
+  let bestScore = 0;
+
+  for (const topic of TOPICS) {
+    const topicScore = score(topic, question, answer);
+    if (topicScore > bestScore) {
+      best = topic;
+      bestScore = topicScore;
+    }
+  }
+  return best;
+}
+
+export function topicOfTurn(turn: Turn, index: number): Topic | null {
+  // The opening question is always about what the app is.
+  return index === 0 ? 'purpose' : classifyTurn(turn);
+}
+
+export function groupTurnsByTopic(turns: Turn[]): { topic: Topic | null; turns: Turn[] }[] {
+  const groups = new Map<Topic | null, Turn[]>();
+
+  turns.forEach((turn, index) => {
+    const topic = topicOfTurn(turn, index);
+    groups.set(topic, [...(groups.get(topic) ?? []), turn]);
+  });
+
+  return [...TOPICS, null]
+    .filter(topic => groups.has(topic))
+    .map(topic => ({ topic, turns: groups.get(topic)! }));
+}
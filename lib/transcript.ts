@@ -0,0 +1,24 @@
+import type { AppSpec } from './spec';
+
+// Whether the answer was a clicked suggestion chip, free text or the summary of a pasted-in spec.
+// Missing on turns saved before chips existed.
+export type AnswerSource = 'suggestion' | 'typed' | 'document';
+
+export const ANSWER_SOURCES: AnswerSource[] = ['suggestion', 'typed', 'document'];
+
+// Stands in as the question for a turn whose answer is an imported document.
+export const DOCUMENT_QUESTION = 'Do you have an existing spec or requirements document?';
+
+export interface Turn {
+  question: string;
+  answer: string;
+  source?: AnswerSource;
+  // The spec as it stood right after this answer, so a fork can resume from it.
+  spec?: AppSpec;
+}
+
+export function formatTranscript(turns: Turn[]): string {
+  return turns
+    .map((turn, index) => `Q${index + 1}: ${turn.question}\nA${index + 1}: ${turn.answer}`)
+    .join('\n\n');
+}
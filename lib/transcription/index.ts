@@ -0,0 +1,15 @@
+import { createServerTranscriber, type ServerTranscriberOptions } from './server';
+import type { Transcriber, TranscriberId } from './types';
+import { createWebSpeechTranscriber } from './webSpeech';
+
+export * from './types';
+export { createServerTranscriber, type ServerTranscriberOptions } from './server';
+export { createWebSpeechTranscriber } from './webSpeech';
+
+export function readTranscriberId(value: string | undefined): TranscriberId {
+  return value === 'server' ? 'server' : 'browser';
+}
+
+export function createTranscriber(id: TranscriberId, options: ServerTranscriberOptions = {}): Transcriber {
+  return id === 'server' ? createServerTranscriber(options) : createWebSpeechTranscriber(options.lang);
+}
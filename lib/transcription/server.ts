@@ -0,0 +1,88 @@
+import { isAbortError } from '@/lib/abort';
+import { readApiError } from '@/lib/api/client';
+import { TranscriptionError, type Transcriber } from './types';
+
+export interface ServerTranscriberOptions {
+  endpoint?: string;
+  headers?: () => Record<string, string>;
+  lang?: string;
+}
+
+// Whisper-style services detect the format from the file name.
+function fileNameFor(mimeType: string): string {
+  if (mimeType.includes('mp4')) return 'speech.m4a';
+  if (mimeType.includes('ogg')) return 'speech.ogg';
+  return 'speech.webm';
+}
+
+// Records with MediaRecorder and transcribes on the server, which forwards to a Whisper-compatible service.
+// The recording is uploaded once, when it stops: compressed audio chunks can't be transcribed on their own,
+// so partial transcripts would mean re-sending everything recorded so far on every tick.
+export function createServerTranscriber({
+  endpoint = '/api/transcribe',
+  headers,
+  lang,
+}: ServerTranscriberOptions = {}): Transcriber {
+  const transcribe = async (audio: Blob, signal: AbortSignal): Promise<string> => {
+    const form = new FormData();
+    form.append('audio', audio, fileNameFor(audio.type));
+    const language = lang || navigator.language;
+    if (language) form.append('language', language);
+
+    const response = await fetch(endpoint, { method: 'POST', headers: headers?.(), body: form, signal });
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+    const { text } = await response.json();
+    return typeof text === 'string' ? text.trim() : '';
+  };
+
+  return {
+    id: 'server',
+
+    isSupported: () =>
+      typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+
+    async start({ onTranscript, onError, onEnd }) {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch {
+        throw new TranscriptionError('Microphone access was denied.');
+      }
+
+      const recorder = new MediaRecorder(stream);
+      const controller = new AbortController();
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = ({ data }) => {
+        if (data.size) chunks.push(data);
+      };
+
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        try {
+          if (!controller.signal.aborted && chunks.length) {
+            const text = await transcribe(new Blob(chunks, { type: recorder.mimeType }), controller.signal);
+            if (text) onTranscript(text, true);
+          }
+        } catch (error) {
+          if (!isAbortError(error)) onError(error);
+        } finally {
+          onEnd();
+        }
+      };
+
+      recorder.start();
+      return {
+        stop: () => {
+          if (recorder.state !== 'inactive') recorder.stop();
+        },
+        abort: () => {
+          controller.abort();
+          if (recorder.state !== 'inactive') recorder.stop();
+        },
+      };
+    },
+  };
+}
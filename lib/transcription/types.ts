@@ -0,0 +1,29 @@
+export type TranscriberId = 'browser' | 'server';
+
+export interface TranscriptHandlers {
+  // Everything heard since `start()`; `final` is set once the text will not change any more.
+  onTranscript: (text: string, final: boolean) => void;
+  onError: (error: unknown) => void;
+  // Called once listening has ended, whether it was stopped, aborted or failed.
+  onEnd: () => void;
+}
+
+export interface TranscriptionSession {
+  // Stops listening; audio already captured is still transcribed.
+  stop(): void;
+  // Stops listening and drops anything not yet transcribed.
+  abort(): void;
+}
+
+export interface Transcriber {
+  readonly id: TranscriberId;
+  isSupported(): boolean;
+  start(handlers: TranscriptHandlers): Promise<TranscriptionSession>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
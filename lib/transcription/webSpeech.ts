@@ -0,0 +1,79 @@
+import { TranscriptionError, type Transcriber } from './types';
+
+// The Web Speech API isn't in TypeScript's DOM lib yet; this is the part of it we use.
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly 0: { transcript: string };
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<SpeechRecognitionResultLike> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied.',
+  'service-not-allowed': 'Speech recognition is turned off in this browser.',
+  'audio-capture': 'No microphone was found.',
+  network: 'Speech recognition needs a network connection in this browser.',
+};
+
+function recognitionConstructor(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+}
+
+// Transcribes in the browser; depending on the browser this runs on-device or through its vendor's service.
+export function createWebSpeechTranscriber(lang?: string): Transcriber {
+  return {
+    id: 'browser',
+
+    isSupported: () => recognitionConstructor() !== null,
+
+    async start({ onTranscript, onError, onEnd }) {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) {
+        throw new TranscriptionError('Voice input is not supported in this browser.');
+      }
+
+      const recognition = new Recognition();
+      recognition.lang = lang || navigator.language;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+
+      let transcript = '';
+      recognition.onresult = ({ results }) => {
+        transcript = Array.from(results, result => result[0].transcript).join('').trim();
+        onTranscript(transcript, false);
+      };
+      recognition.onerror = ({ error }) => {
+        // "aborted" is our own abort() and "no-speech" just means silence; neither is worth reporting.
+        if (error === 'aborted' || error === 'no-speech') return;
+        onError(new TranscriptionError(ERROR_MESSAGES[error] ?? `Speech recognition failed (${error}).`));
+      };
+      recognition.onend = () => {
+        if (transcript) onTranscript(transcript, true);
+        onEnd();
+      };
+
+      recognition.start();
+      return {
+        stop: () => recognition.stop(),
+        abort: () => {
+          transcript = '';
+          recognition.abort();
+        },
+      };
+    },
+  };
+}
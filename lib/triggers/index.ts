@@ -0,0 +1,56 @@
+import { STRATEGIES } from './strategies';
+import type { TriggerInput, TriggerSettings } from './types';
+
+export * from './types';
+export { STRATEGIES, countWords, normalizeMeaning } from './strategies';
+
+// Punctuation plus idle reproduces the original behaviour: 0 ms after ".", 500 ms after ",", 1 s otherwise.
+export const DEFAULT_TRIGGER_SETTINGS: TriggerSettings = {
+  enabled: {
+    punctuation: true,
+    idle: true,
+    minWords: false,
+    semantic: true,
+    manual: false,
+  },
+  idleMs: 1000,
+  minWords: 3,
+};
+
+// Bounds for the numeric settings; saved values outside them are clamped.
+export const TRIGGER_LIMITS = {
+  idleMs: { min: 200, max: 10_000, step: 100 },
+  minWords: { min: 1, max: 50, step: 1 },
+} as const;
+
+// Returns how long to wait before asking, or null when typing should not trigger a request.
+export function decideTrigger(input: TriggerInput, settings: TriggerSettings): number | null {
+  if (!input.text.trim()) return null;
+
+  const enabled = STRATEGIES.filter(strategy => settings.enabled[strategy.id]);
+  let delay: number | null = null;
+
+  for (const strategy of enabled) {
+    if (strategy.kind === 'filter') {
+      if (!strategy.allows(input, settings)) return null;
+    } else {
+      const proposed = strategy.delay(input, settings);
+      if (proposed !== null) delay = delay === null ? proposed : Math.min(delay, proposed);
+    }
+  }
+  return delay;
+}
+
+function clampSetting(key: keyof typeof TRIGGER_LIMITS, value: unknown): number {
+  const { min, max } = TRIGGER_LIMITS[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return DEFAULT_TRIGGER_SETTINGS[key];
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+export function normalizeTriggerSettings(saved: Partial<TriggerSettings> | null): TriggerSettings {
+  return {
+    enabled: { ...DEFAULT_TRIGGER_SETTINGS.enabled, ...saved?.enabled },
+    idleMs: clampSetting('idleMs', saved?.idleMs),
+    minWords: clampSetting('minWords', saved?.minWords),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRIGGER_SETTINGS } from '.';
+import { readTriggerSettings, saveTriggerSettings } from './storage';
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe('trigger settings storage', () => {
+  it('reads the defaults when nothing is saved', () => {
+    expect(readTriggerSettings(memoryStorage())).toEqual(DEFAULT_TRIGGER_SETTINGS);
+  });
+
+  it('saves changes to the idle delay and minimum words', () => {
+    const storage = memoryStorage();
+    let settings = readTriggerSettings(storage);
+
+    settings = saveTriggerSettings(settings, { idleMs: 2500 }, storage);
+    settings = saveTriggerSettings(settings, { minWords: 5 }, storage);
+
+    expect(settings).toMatchObject({ idleMs: 2500, minWords: 5 });
+    expect(readTriggerSettings(storage)).toEqual(settings);
+  });
+
+  it('saves clamped values rather than the ones asked for', () => {
+    const storage = memoryStorage();
+    saveTriggerSettings(DEFAULT_TRIGGER_SETTINGS, { idleMs: 0, minWords: 500 }, storage);
+
+    expect(readTriggerSettings(storage)).toMatchObject({ idleMs: 200, minWords: 50 });
+  });
+});
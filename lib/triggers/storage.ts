@@ -0,0 +1,23 @@
+import { normalizeTriggerSettings, type TriggerSettings } from '.';
+
+const SETTINGS_KEY = 'webapp-prompt-builder.trigger-settings';
+
+export function readTriggerSettings(storage: Storage = window.localStorage): TriggerSettings {
+  try {
+    return normalizeTriggerSettings(JSON.parse(storage.getItem(SETTINGS_KEY) || 'null'));
+  } catch (error) {
+    console.error('Error reading trigger settings:', error);
+    return normalizeTriggerSettings(null);
+  }
+}
+
+// Applies `patch` on top of `current`, saves the result and returns it.
+export function saveTriggerSettings(
+  current: TriggerSettings,
+  patch: Partial<TriggerSettings>,
+  storage: Storage = window.localStorage,
+): TriggerSettings {
+  const next = normalizeTriggerSettings({ ...current, ...patch });
+  storage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRIGGER_SETTINGS, decideTrigger, normalizeTriggerSettings } from '.';
+import {
+  countWords,
+  idleStrategy,
+  manualStrategy,
+  minWordsStrategy,
+  normalizeMeaning,
+  punctuationStrategy,
+  semanticStrategy,
+} from './strategies';
+import type { TriggerSettings, TriggerStrategyId } from './types';
+
+const settings = DEFAULT_TRIGGER_SETTINGS;
+const input = (text: string, lastSubmitted: string | null = null) => ({ text, lastSubmitted });
+
+const NONE: TriggerSettings['enabled'] = { punctuation: false, idle: false, minWords: false, semantic: false, manual: false };
+
+// Settings with exactly the given strategies turned on.
+const only = (ids: TriggerStrategyId[], overrides: Partial<TriggerSettings> = {}): TriggerSettings => ({
+  ...settings,
+  ...overrides,
+  enabled: { ...NONE, ...Object.fromEntries(ids.map(id => [id, true])) },
+});
+
+describe('punctuationStrategy', () => {
+  it('fires immediately after a sentence ends', () => {
+    expect(punctuationStrategy.delay(input('A blog.'), settings)).toBe(0);
+    expect(punctuationStrategy.delay(input('Who uses it?'), settings)).toBe(0);
+    expect(punctuationStrategy.delay(input('Go!  '), settings)).toBe(0);
+  });
+
+  it('waits briefly after a clause ends', () => {
+    expect(punctuationStrategy.delay(input('Tasks, notes'), settings)).toBeNull();
+    expect(punctuationStrategy.delay(input('Tasks,'), settings)).toBe(500);
+    expect(punctuationStrategy.delay(input('Tasks;'), settings)).toBe(500);
+  });
+
+  it('proposes nothing mid-word', () => {
+    expect(punctuationStrategy.delay(input('A blo'), settings)).toBeNull();
+  });
+});
+
+describe('idleStrategy', () => {
+  it('waits the configured idle time', () => {
+    expect(idleStrategy.delay(input('A blo'), { ...settings, idleMs: 2500 })).toBe(2500);
+  });
+});
+
+describe('minWordsStrategy', () => {
+  it('counts words across any whitespace', () => {
+    expect(countWords('  a\tblog\nfor   cooks ')).toBe(4);
+    expect(countWords('   ')).toBe(0);
+  });
+
+  it('allows answers at or above the threshold', () => {
+    expect(minWordsStrategy.allows(input('A blog'), { ...settings, minWords: 3 })).toBe(false);
+    expect(minWordsStrategy.allows(input('A recipe blog'), { ...settings, minWords: 3 })).toBe(true);
+  });
+});
+
+describe('semanticStrategy', () => {
+  it('ignores casing, punctuation and filler words', () => {
+    expect(normalizeMeaning('Um, just a BLOG!')).toBe('blog');
+  });
+
+  it('allows the first request and real changes', () => {
+    expect(semanticStrategy.allows(input('A blog'), settings)).toBe(true);
+    expect(semanticStrategy.allows(input('A recipe blog', 'A blog'), settings)).toBe(true);
+  });
+
+  it('vetoes edits that keep the meaning', () => {
+    expect(semanticStrategy.allows(input('a blog.', 'A blog'), settings)).toBe(false);
+    expect(semanticStrategy.allows(input('Just a blog', 'A blog'), settings)).toBe(false);
+  });
+});
+
+describe('manualStrategy', () => {
+  it('never allows typing to trigger', () => {
+    expect(manualStrategy.allows(input('A blog.'), settings)).toBe(false);
+  });
+});
+
+describe('decideTrigger', () => {
+  it('keeps the original delays by default', () => {
+    expect(decideTrigger(input('A blog.'), settings)).toBe(0);
+    expect(decideTrigger(input('A blog,'), settings)).toBe(500);
+    expect(decideTrigger(input('A blog'), settings)).toBe(1000);
+  });
+
+  it('never fires for blank input', () => {
+    expect(decideTrigger(input('   '), settings)).toBeNull();
+  });
+
+  it('takes the shortest delay of the enabled timers', () => {
+    expect(decideTrigger(input('A blog,'), only(['punctuation', 'idle'], { idleMs: 200 }))).toBe(200);
+    expect(decideTrigger(input('A blog'), only(['punctuation']))).toBeNull();
+  });
+
+  it('lets any filter veto the timers', () => {
+    const words = only(['punctuation', 'idle', 'minWords'], { minWords: 3 });
+    expect(decideTrigger(input('A blog.'), words)).toBeNull();
+    expect(decideTrigger(input('A recipe blog.'), words)).toBe(0);
+
+    const semantic = only(['punctuation', 'semantic']);
+    expect(decideTrigger(input('A blog!', 'A blog.'), semantic)).toBeNull();
+  });
+
+  it('never fires in manual mode, whatever else is enabled', () => {
+    expect(decideTrigger(input('A recipe blog.'), only(['punctuation', 'idle', 'manual']))).toBeNull();
+  });
+
+  it('does not fire with only filters enabled', () => {
+    expect(decideTrigger(input('A recipe blog.'), only(['minWords', 'semantic']))).toBeNull();
+  });
+});
+
+describe('normalizeTriggerSettings', () => {
+  it('fills in strategies added after the settings were saved', () => {
+    const saved = { idleMs: 2000, enabled: { punctuation: false } } as Partial<TriggerSettings>;
+
+    expect(normalizeTriggerSettings(saved)).toEqual({
+      ...DEFAULT_TRIGGER_SETTINGS,
+      idleMs: 2000,
+      enabled: { ...DEFAULT_TRIGGER_SETTINGS.enabled, punctuation: false },
+    });
+    expect(normalizeTriggerSettings(null)).toEqual(DEFAULT_TRIGGER_SETTINGS);
+  });
+
+  it('clamps numeric settings and drops ones that are not numbers', () => {
+    const saved = { idleMs: 50, minWords: 'many' } as unknown as Partial<TriggerSettings>;
+
+    expect(normalizeTriggerSettings(saved)).toMatchObject({ idleMs: 200, minWords: DEFAULT_TRIGGER_SETTINGS.minWords });
+    expect(normalizeTriggerSettings({ idleMs: 60_000, minWords: 2.6 })).toMatchObject({ idleMs: 10_000, minWords: 3 });
+  });
+});
@@ -0,0 +1,78 @@
+import type { FilterStrategy, TimerStrategy, TriggerStrategy } from './types';
+
+const SENTENCE_END = ['.', '?', '!'];
+const CLAUSE_END = [',', ';', ':'];
+const CLAUSE_DELAY = 500;
+
+export const punctuationStrategy: TimerStrategy = {
+  id: 'punctuation',
+  kind: 'timer',
+  label: 'Punctuation',
+  description: 'Preview the next question right after a sentence ends, or shortly after a comma.',
+  delay({ text }) {
+    const lastChar = text.trim().slice(-1);
+    if (SENTENCE_END.includes(lastChar)) return 0;
+    if (CLAUSE_END.includes(lastChar)) return CLAUSE_DELAY;
+    return null;
+  },
+};
+
+export const idleStrategy: TimerStrategy = {
+  id: 'idle',
+  kind: 'timer',
+  label: 'Pause in typing',
+  description: 'Preview the next question once you stop typing for a moment.',
+  delay(_input, { idleMs }) {
+    return idleMs;
+  },
+};
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export const minWordsStrategy: FilterStrategy = {
+  id: 'minWords',
+  kind: 'filter',
+  label: 'Minimum length',
+  description: 'Wait until the answer has a few words.',
+  allows({ text }, { minWords }) {
+    return countWords(text) >= minWords;
+  },
+};
+
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'um', 'uh', 'like', 'just', 'really', 'very', 'so']);
+
+export function normalizeMeaning(text: string): string {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(word => !FILLER_WORDS.has(word))
+    .join(' ');
+}
+
+export const semanticStrategy: FilterStrategy = {
+  id: 'semantic',
+  kind: 'filter',
+  label: 'Skip unchanged meaning',
+  description: "Don't preview again when an edit only changes punctuation, casing or filler words.",
+  allows({ text, lastSubmitted }) {
+    return lastSubmitted === null || normalizeMeaning(text) !== normalizeMeaning(lastSubmitted);
+  },
+};
+
+export const manualStrategy: FilterStrategy = {
+  id: 'manual',
+  kind: 'filter',
+  label: 'Manual only',
+  description: 'No previews; the next question only comes when you press Enter or the send button.',
+  allows() {
+    return false;
+  },
+};
+
+export const STRATEGIES: TriggerStrategy[] = [
+  punctuationStrategy,
+  idleStrategy,
+  minWordsStrategy,
+  semanticStrategy,
+  manualStrategy,
+];
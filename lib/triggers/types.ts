@@ -0,0 +1,32 @@
+export type TriggerStrategyId = 'punctuation' | 'idle' | 'minWords' | 'semantic' | 'manual';
+
+export interface TriggerInput {
+  text: string;
+  // The last text that actually triggered a request, if any.
+  lastSubmitted: string | null;
+}
+
+export interface TriggerSettings {
+  enabled: Record<TriggerStrategyId, boolean>;
+  idleMs: number;
+  minWords: number;
+}
+
+interface StrategyInfo {
+  id: TriggerStrategyId;
+  label: string;
+  description: string;
+}
+
+// Timers propose when to fire; filters can only veto.
+export interface TimerStrategy extends StrategyInfo {
+  kind: 'timer';
+  delay(input: TriggerInput, settings: TriggerSettings): number | null;
+}
+
+export interface FilterStrategy extends StrategyInfo {
+  kind: 'filter';
+  allows(input: TriggerInput, settings: TriggerSettings): boolean;
+}
+
+export type TriggerStrategy = TimerStrategy | FilterStrategy;